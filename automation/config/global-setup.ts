@@ -0,0 +1,22 @@
+import { OpenmrsMockServer } from '../mock/openmrs-mock-server';
+
+/**
+ * With OPENMRS_MOCK=true, start the in-process OpenMRS mock server and point
+ * the run at it through BASE_URL, which the workers inherit. The returned
+ * function stops the server once the run is over.
+ *
+ * The mock only serves the REST API, so this is for the API and data layer
+ * tests (npm run test:api); UI tests still need a real server.
+ */
+export default async function globalSetup(): Promise<(() => Promise<void>) | void> {
+  if (process.env.OPENMRS_MOCK !== 'true') {
+    return;
+  }
+
+  const server = new OpenmrsMockServer();
+  const baseURL = await server.start(Number(process.env.OPENMRS_MOCK_PORT) || 0);
+  process.env.BASE_URL = baseURL;
+  console.log(`OpenMRS mock server listening on ${baseURL}`);
+
+  return () => server.stop();
+}
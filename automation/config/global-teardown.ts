@@ -0,0 +1,33 @@
+import { request } from '@playwright/test';
+import { createAuthenticatedApiHelpers } from '../utils/api-helpers';
+import { TEST_PATIENT_PREFIX } from '../utils/data-generator';
+
+/**
+ * Purge the patients this and earlier runs created, identified by
+ * TEST_PATIENT_PREFIX. Does nothing when no prefix is configured, since
+ * sweeping by an empty prefix would match real patients, or when running
+ * against the mock server, whose data goes away with it.
+ */
+export default async function globalTeardown(): Promise<void> {
+  if (!TEST_PATIENT_PREFIX || process.env.OPENMRS_MOCK === 'true') {
+    return;
+  }
+
+  const apiContext = await request.newContext();
+  try {
+    const apiHelpers = await createAuthenticatedApiHelpers(apiContext);
+    const report = await apiHelpers.sweepTestPatients(TEST_PATIENT_PREFIX);
+
+    console.log(
+      `Swept ${report.succeeded.length} test patient(s) with prefix "${TEST_PATIENT_PREFIX}"`
+    );
+    for (const failure of report.failed) {
+      console.warn(`Could not purge ${failure.input.display}:`, failure.error);
+    }
+  } catch (error) {
+    // A failed sweep must not fail the run; the next run sweeps again
+    console.error('Test patient sweep failed:', error);
+  } finally {
+    await apiContext.dispose();
+  }
+}
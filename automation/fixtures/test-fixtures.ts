@@ -1,10 +1,26 @@
-import { test as base } from '@playwright/test';
+import { test as base, expect as baseExpect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { HomePage } from '../pages/HomePage';
 import { PatientSearchPage } from '../pages/PatientSearchPage';
 import { RegistrationPage } from '../pages/RegistrationPage';
 import { PatientDetailPage } from '../pages/PatientDetailPage';
-import { generatePatientData } from '../utils/data-generator';
+import { MergePatientsPage } from '../pages/MergePatientsPage';
+import {
+  DEFAULT_DATA_LOCALE,
+  dataSeedFor,
+  generatePatientData,
+  seedFaker,
+} from '../utils/data-generator';
+import type { DataLocale } from '../utils/data-generator';
+import {
+  DataSeeder,
+  SystemSettingOverrides,
+  createAuthenticatedApiHelpers,
+} from '../utils/api-helpers';
+import type { ApiHelpers, ProvisionedUser, StorageState } from '../utils/api-helpers';
+import { createFhirClient } from '../utils/fhir-client';
+import type { FhirClient } from '../utils/fhir-client';
+import { ContractValidator, formatViolations } from '../utils/contract-validator';
 import type { PatientData } from '../pages/RegistrationPage';
 
 // Extend basic test by adding custom fixtures
@@ -14,22 +30,99 @@ type TestFixtures = {
   patientSearchPage: PatientSearchPage;
   registrationPage: RegistrationPage;
   patientDetailPage: PatientDetailPage;
+  mergePatientsPage: MergePatientsPage;
+  apiStorageState: StorageState;
   loggedInUser: void;
-  adminUser: { username: string; password: string; location: string };
+  uiLoggedInUser: void;
+  dataSeed: number;
+  dataLocale: DataLocale;
   testPatient: PatientData;
+  apiHelpers: ApiHelpers;
+  fhirClient: FhirClient;
+  userRole: string;
+  provisionedUser: ProvisionedUser;
+  systemSettingOverrides: Record<string, string | null>;
+  systemSettings: SystemSettingOverrides;
 };
 
-export const test = base.extend<TestFixtures>({
+// Shared by every test in a worker
+type WorkerFixtures = {
+  adminUser: { username: string; password: string; location: string };
+  workerApiHelpers: ApiHelpers;
+  loginLocations: string[];
+  loginLocation: string;
+};
+
+export const test = base.extend<TestFixtures, WorkerFixtures>({
   /**
    * Admin user credentials fixture
    */
-  adminUser: async ({}, use) => {
-    const adminCredentials = {
-      username: process.env.ADMIN_USER || 'admin',
-      password: process.env.ADMIN_PASS || 'Admin123',
-      location: process.env.DEFAULT_LOCATION || 'random', // Support random selection
-    };
-    await use(adminCredentials);
+  adminUser: [
+    async ({}, use) => {
+      const adminCredentials = {
+        username: process.env.ADMIN_USER || 'admin',
+        password: process.env.ADMIN_PASS || 'Admin123',
+        location: process.env.DEFAULT_LOCATION || 'random', // Support random selection
+      };
+      await use(adminCredentials);
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * API helpers authenticated as the admin user, shared by the worker's fixtures
+   */
+  workerApiHelpers: [
+    async ({ playwright, adminUser }, use) => {
+      const apiContext = await playwright.request.newContext();
+      try {
+        await use(
+          await createAuthenticatedApiHelpers(apiContext, adminUser.username, adminUser.password)
+        );
+      } finally {
+        await apiContext.dispose();
+      }
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * Locations the login page offers, as configured on the server
+   */
+  loginLocations: [
+    async ({ workerApiHelpers }, use) => {
+      await use(await workerApiHelpers.getLoginLocationNames());
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * Location the API login picks for the session ('random' for any login location).
+   * Override per file with test.use({ loginLocation: 'Pharmacy' }).
+   */
+  loginLocation: [process.env.DEFAULT_LOCATION || 'random', { scope: 'worker', option: true }],
+
+  /**
+   * Admin session created through the REST API, exported as storage state.
+   * Each test logs in on its own, so a test that switches location or logs
+   * out through the UI leaves the next test's session alone.
+   */
+  apiStorageState: async ({ playwright, adminUser, loginLocations, loginLocation }, use) => {
+    const apiContext = await playwright.request.newContext();
+    try {
+      const apiHelpers = await createAuthenticatedApiHelpers(
+        apiContext,
+        adminUser.username,
+        adminUser.password
+      );
+      const location =
+        loginLocation === 'random' ? testUtils.randomItem(loginLocations) : loginLocation;
+
+      await apiHelpers.setSessionLocation(location);
+      await use(await apiHelpers.getStorageState());
+    } finally {
+      await apiContext.dispose();
+    }
   },
 
   /**
@@ -72,11 +165,40 @@ export const test = base.extend<TestFixtures>({
     await use(patientDetailPage);
   },
 
+  /**
+   * Merge Patients page fixture
+   */
+  mergePatientsPage: async ({ page }, use) => {
+    const mergePatientsPage = new MergePatientsPage(page);
+    await use(mergePatientsPage);
+  },
+
   /**
    * Pre-authenticated user session fixture
-   * This automatically logs in a user before each test
+   * Starts the test on the home page, logged in with the API session
+   */
+  loggedInUser: async ({ page, homePage, apiStorageState }, use) => {
+    await page.context().addCookies(apiStorageState.cookies);
+    for (const { origin, localStorage } of apiStorageState.origins) {
+      await page.addInitScript(
+        ({ origin, entries }) => {
+          if (window.location.origin === origin) {
+            entries.forEach(({ name, value }) => window.localStorage.setItem(name, value));
+          }
+        },
+        { origin, entries: localStorage }
+      );
+    }
+
+    await page.goto('/openmrs/index.htm');
+    await homePage.waitForPageLoad();
+    await use();
+  },
+
+  /**
+   * Pre-authenticated user session fixture that logs in through the login page
    */
-  loggedInUser: async ({ page, loginPage, adminUser }) => {
+  uiLoggedInUser: async ({ page, loginPage, adminUser }, use) => {
     try {
       // Set a longer timeout for login operations
       page.setDefaultTimeout(45000);
@@ -93,22 +215,119 @@ export const test = base.extend<TestFixtures>({
     } catch (error) {
       throw error;
     }
+    await use();
   },
 
+  /**
+   * API helpers authenticated as the admin user
+   */
+  apiHelpers: async ({ request, adminUser }, use) => {
+    await use(await createAuthenticatedApiHelpers(request, adminUser.username, adminUser.password));
+  },
+
+  /**
+   * FHIR R4 client authenticated as the admin user
+   */
+  fhirClient: async ({ request, adminUser }, use) => {
+    await use(createFhirClient(request, adminUser.username, adminUser.password));
+  },
+
+  /**
+   * Role given to provisionedUser.
+   * Override per file with test.use({ userRole: 'Organizational: Nurse' }).
+   */
+  userRole: [process.env.TEST_USER_ROLE || 'Organizational: Registration Clerk', { option: true }],
+
+  /**
+   * Freshly provisioned user (and provider) with userRole, retired after the test
+   */
+  provisionedUser: async ({ apiHelpers, userRole }, use) => {
+    const dataSeeder = new DataSeeder(apiHelpers);
+    try {
+      await use(await dataSeeder.seedUser([userRole]));
+    } finally {
+      await dataSeeder.cleanup();
+    }
+  },
+
+  /**
+   * System settings (global properties) the systemSettings fixture applies, e.g.
+   * test.use({ systemSettingOverrides: { 'locale.allowed.list': 'en, fr' } })
+   */
+  systemSettingOverrides: [{}, { option: true }],
+
+  /**
+   * Applies systemSettingOverrides before the test and restores the original
+   * values afterwards, whether the test passed or not. Call
+   * systemSettings.set() for changes decided inside the test; they are
+   * restored too.
+   */
+  systemSettings: async ({ apiHelpers, systemSettingOverrides }, use) => {
+    const systemSettings = new SystemSettingOverrides(apiHelpers);
+    try {
+      await systemSettings.setAll(systemSettingOverrides);
+      await use(systemSettings);
+    } finally {
+      await systemSettings.restore();
+    }
+  },
+
+  /**
+   * Seeds faker before every test from the test's file, title and retry
+   * (or TEST_DATA_SEED), so re-running a failed test regenerates the same
+   * data. The seed is attached to the report as test-data-seed.
+   */
+  dataSeed: [
+    async ({}, use, testInfo) => {
+      const seed = dataSeedFor([...testInfo.titlePath, `retry ${testInfo.retry}`]);
+      seedFaker(seed);
+      await testInfo.attach('test-data-seed', { body: String(seed), contentType: 'text/plain' });
+      await use(seed);
+    },
+    { auto: true },
+  ],
+
+  /**
+   * Locale of generated test data (DATA_LOCALE, 'en' by default).
+   * Override per file with test.use({ dataLocale: 'id_ID' }), or per project in
+   * playwright.config.ts with use: { dataLocale: 'fr' }.
+   */
+  dataLocale: [DEFAULT_DATA_LOCALE, { option: true }],
+
   /**
    * Test patient data fixture
-   * Generates fresh patient data for each test
+   * Generates fresh patient data for each test, in dataLocale
    */
-  testPatient: async ({}, use) => {
-    const patientData = generatePatientData();
+  testPatient: async ({ dataSeed: _dataSeed, dataLocale }, use) => {
+    const patientData = generatePatientData({ locale: dataLocale });
     await use(patientData);
   },
 });
 
+const contractValidator = new ContractValidator();
+
 /**
  * Custom expect extensions for OpenMRS specific assertions
  */
-export { expect } from '@playwright/test';
+export const expect = baseExpect.extend({
+  /**
+   * Check a REST response body against a JSON schema contract, e.g.
+   * expect(body).toMatchContract('patient'); failures list every field that differs
+   */
+  toMatchContract(received: unknown, contract: string) {
+    const violations = contractValidator.validate(contract, received);
+    const pass = violations.length === 0;
+    return {
+      pass,
+      name: 'toMatchContract',
+      expected: contract,
+      message: () =>
+        pass
+          ? `Expected the response not to match contract ${contract}`
+          : formatViolations(contract, violations),
+    };
+  },
+});
 
 /**
  * Test configuration helpers
@@ -124,6 +343,7 @@ export const testConfig = {
     WIP: '@wip',
     API: '@api',
     UI: '@ui',
+    CONTRACT: '@contract',
   },
 
   /**
@@ -140,14 +360,6 @@ export const testConfig = {
    * Test data constants
    */
   testData: {
-    VALID_LOCATIONS: [
-      'Inpatient Ward',
-      'Outpatient Clinic',
-      'Laboratory',
-      'Pharmacy',
-      'Registration Desk',
-      'Isolation Ward',
-    ],
     INVALID_CREDENTIALS: [
       { username: 'invalid', password: 'invalid', location: 'random' },
       { username: '', password: '', location: 'random' },
@@ -191,6 +403,13 @@ export const testUtils = {
     return date.toISOString().split('T')[0]; // YYYY-MM-DD format
   },
 
+  /**
+   * Pick a random element of a non-empty list
+   */
+  randomItem<T>(items: readonly T[]): T {
+    return items[Math.floor(Math.random() * items.length)];
+  },
+
   /**
    * Sleep utility (use sparingly, prefer waitFor methods)
    */
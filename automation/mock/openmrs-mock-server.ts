@@ -0,0 +1,2134 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type {
+  Allergy,
+  Concept,
+  Condition,
+  EncounterType,
+  IdentifierSource,
+  LocationFull,
+  OpenmrsRef,
+  PatientFull,
+  PatientIdentifier,
+  PatientIdentifierType,
+  PersonFull,
+  PersonAttributeType,
+  Provider,
+  RelationshipType,
+  Role,
+  Session,
+  SystemInfo,
+  SystemSetting,
+  User,
+  VisitType,
+} from '../utils/openmrs-models';
+import type {
+  AdministrativeGender,
+  Bundle,
+  Patient as FhirPatient,
+  OperationOutcome,
+} from '../utils/fhir-models';
+
+/**
+ * In-process stand-in for the OpenMRS REST API (/openmrs/ws/rest/v1), so the
+ * API and data layers can run without a real server.
+ *
+ * It implements the endpoints ApiHelpers uses for sessions, patients
+ * (create, read, search, void and purge), identifiers, locations, system
+ * info, system settings, visits, encounters with obs, allergies,
+ * conditions, concepts, persons and relationships, users, roles and
+ * providers, with in-memory state and the error bodies the REST module returns. Every
+ * response is served in the full representation whatever `v` asks for.
+ * Outside the REST API it handles the Merge Patients page form (see
+ * mergePatients), the FHIR R4 Patient resource: read, search with paging,
+ * create and delete (see routeFhir), and an OAuth2 token endpoint at
+ * tokenURL for bearer authentication (see handleToken).
+ *
+ * Start it with OPENMRS_MOCK=true (see global-setup), or directly:
+ *
+ *   const server = new OpenmrsMockServer();
+ *   const baseURL = await server.start();
+ *   const apiHelpers = new ApiHelpers(request, baseURL);
+ */
+
+export interface MockUser {
+  username: string;
+  password: string;
+}
+
+export interface OpenmrsMockServerOptions {
+  /**
+   * Accounts that can log in (default: admin / Admin123), besides the users
+   * created through the API and not retired
+   */
+  users?: MockUser[];
+  /**
+   * Page size when a search has no limit (the REST module default is 50,
+   * the FHIR module's 10)
+   */
+  defaultLimit?: number;
+  /** OAuth2 client the token endpoint accepts (default openmrs-tests, without a secret) */
+  oauthClient?: { clientId: string; clientSecret?: string };
+  /** Lifetime of the access tokens it issues, in seconds (default 300) */
+  tokenExpiresIn?: number;
+}
+
+interface MockSession {
+  username: string;
+  locationUuid: string | undefined;
+}
+
+interface MockVisit {
+  uuid: string;
+  patientUuid: string;
+  visitTypeUuid: string;
+  locationUuid: string | undefined;
+  startDatetime: string;
+  stopDatetime: string | null;
+  voided: boolean;
+}
+
+interface MockObs {
+  uuid: string;
+  conceptUuid: string;
+  value: string | number;
+}
+
+interface MockEncounter {
+  uuid: string;
+  patientUuid: string;
+  encounterTypeUuid: string;
+  locationUuid: string | undefined;
+  visitUuid: string | undefined;
+  encounterDatetime: string;
+  obs: MockObs[];
+  voided: boolean;
+}
+
+interface MockAllergy extends Allergy {
+  patientUuid: string;
+  voided: boolean;
+}
+
+interface MockCondition extends Condition {
+  patientUuid: string;
+}
+
+interface MockUserAccount extends User {
+  password: string;
+}
+
+interface MockRelationship {
+  uuid: string;
+  personAUuid: string;
+  personBUuid: string;
+  relationshipTypeUuid: string;
+  voided: boolean;
+}
+
+type Query = URLSearchParams;
+type Body = Record<string, unknown>;
+
+const REST_PREFIX = '/openmrs/ws/rest/v1/';
+const FHIR_PREFIX = '/openmrs/ws/fhir2/R4/';
+const TOKEN_PATH = '/oauth2/token';
+const MERGE_PATIENTS_PAGE = '/openmrs/coreapps/datamanagement/mergePatients.page';
+const MAX_LIMIT = 100;
+const ALLERGEN_TYPES = ['DRUG', 'FOOD', 'ENVIRONMENT', 'OTHER'];
+const CLINICAL_STATUSES = ['ACTIVE', 'INACTIVE', 'HISTORY_OF'];
+/** CIEL "Other non-coded": the coded allergen of free-text allergies */
+const OTHER_NON_CODED = '5622AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
+/**
+ * A failed request, rendered as the REST module's error body
+ */
+class MockRestError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly fieldErrors: Record<string, Array<{ code: string; message: string }>> | undefined;
+
+  constructor(
+    status: number,
+    message: string,
+    code: string,
+    fieldErrors?: Record<string, Array<{ code: string; message: string }>>
+  ) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+
+  toBody(): Body {
+    if (this.fieldErrors) {
+      return {
+        error: {
+          message: this.message,
+          code: this.code,
+          globalErrors: [],
+          fieldErrors: this.fieldErrors,
+        },
+      };
+    }
+    return { error: { message: this.message, code: this.code, detail: '' } };
+  }
+}
+
+function notFound(): MockRestError {
+  return new MockRestError(
+    404,
+    "Object with given uuid doesn't exist [null]",
+    'org.openmrs.module.webservices.rest.web.response.ObjectNotFoundException'
+  );
+}
+
+function invalidSubmission(field: string, code: string, message: string): MockRestError {
+  return new MockRestError(400, 'Invalid Submission', 'webservices.rest.error.invalid.submission', {
+    [field]: [{ code, message }],
+  });
+}
+
+function badRequest(message: string): MockRestError {
+  return new MockRestError(
+    400,
+    message,
+    'org.openmrs.module.webservices.rest.web.response.IllegalRequestException'
+  );
+}
+
+export class OpenmrsMockServer {
+  /** Method and REST path of each request since the last reset, e.g. 'GET patient/{uuid}' */
+  readonly requests: string[] = [];
+  /** How each request in `requests` authenticated: 'basic', 'bearer', 'session' or 'none' */
+  readonly credentials: string[] = [];
+  /** grant_type of every token request, in order */
+  readonly grants: string[] = [];
+  private server: Server | undefined;
+  private options: OpenmrsMockServerOptions;
+  private url = '';
+
+  private sessions = new Map<string, MockSession>();
+  private accessTokens = new Map<string, { username: string; expiresAt: number }>();
+  /** Refresh token to the username it was issued for */
+  private refreshTokens = new Map<string, string>();
+  private unavailableRequests = 0;
+  private patients = new Map<string, PatientFull>();
+  private persons = new Map<string, PersonFull>();
+  private visits = new Map<string, MockVisit>();
+  private encounters = new Map<string, MockEncounter>();
+  private allergies = new Map<string, MockAllergy>();
+  private conditions = new Map<string, MockCondition>();
+  private relationships = new Map<string, MockRelationship>();
+  private users = new Map<string, MockUserAccount>();
+  private providers = new Map<string, Provider>();
+  private identifierCounter = 0;
+  /** Matching patient UUIDs of each FHIR search, for its paging links */
+  private fhirSearches = new Map<string, string[]>();
+
+  private locations: LocationFull[] = [];
+  private identifierTypes: PatientIdentifierType[] = [];
+  private identifierSources: IdentifierSource[] = [];
+  private personAttributeTypes: PersonAttributeType[] = [];
+  private visitTypes: VisitType[] = [];
+  private encounterTypes: EncounterType[] = [];
+  private relationshipTypes: RelationshipType[] = [];
+  private roles: Role[] = [];
+  private concepts: Array<Concept & { mappingCodes: string[] }> = [];
+  private systemSettings: SystemSetting[] = [];
+
+  constructor(options: OpenmrsMockServerOptions = {}) {
+    this.options = options;
+    this.reset();
+  }
+
+  /** Server root to pass to ApiHelpers, e.g. 'http://127.0.0.1:54321' */
+  get baseURL(): string {
+    return this.url;
+  }
+
+  /** OAuth2 token endpoint, for BearerTokenStrategy's tokenUrl */
+  get tokenURL(): string {
+    return `${this.url}${TOKEN_PATH}`;
+  }
+
+  /**
+   * Listen on `port` (0 picks a free one) and return the server root
+   */
+  async start(port = 0): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: String(error), code: 'mock.error' } }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', resolve);
+    });
+
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Drop all sessions and created data, keeping the reference data
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.unavailableRequests = 0;
+    this.credentials.length = 0;
+    this.grants.length = 0;
+    this.sessions.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+    this.patients.clear();
+    this.persons.clear();
+    this.visits.clear();
+    this.encounters.clear();
+    this.allergies.clear();
+    this.conditions.clear();
+    this.relationships.clear();
+    this.users.clear();
+    this.providers.clear();
+    this.fhirSearches.clear();
+    this.identifierCounter = 0;
+    this.seedReferenceData();
+  }
+
+  /**
+   * End every session, as a server-side session timeout would
+   */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Answer the next `count` REST requests with 503 Service Unavailable, as a
+   * server that is still starting would; they are recorded in `requests`
+   */
+  failNext(count: number): void {
+    this.unavailableRequests = count;
+  }
+
+  /**
+   * Revoke every access and refresh token, as an OAuth2 gateway would on logout
+   */
+  revokeTokens(): void {
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://mock');
+    const method = req.method || 'GET';
+    const raw = await readBody(req);
+    const isFhir = url.pathname.startsWith(FHIR_PREFIX);
+
+    const send = (status: number, payload?: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, {
+        ...(payload !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      });
+      res.end(payload !== undefined ? JSON.stringify(payload) : undefined);
+    };
+
+    try {
+      if (url.pathname === TOKEN_PATH && method === 'POST') {
+        const { status, payload } = this.handleToken(raw);
+        send(status, payload);
+        return;
+      }
+      if (url.pathname === MERGE_PATIENTS_PAGE && method === 'POST') {
+        const { status, headers } = this.handleMergePatientsPage(req, raw);
+        send(status, undefined, headers);
+        return;
+      }
+      if (!url.pathname.startsWith(REST_PREFIX) && !isFhir) {
+        throw new MockRestError(404, `Not found: ${url.pathname}`, 'mock.not.found');
+      }
+
+      let body: Body = {};
+      if (raw) {
+        try {
+          body = JSON.parse(raw);
+        } catch {
+          throw badRequest('Could not read JSON: invalid request body');
+        }
+      }
+
+      if (isFhir) {
+        if (!this.currentSession(req)) {
+          throw new MockRestError(401, 'User is not logged in', 'login');
+        }
+        const segments = url.pathname.slice(FHIR_PREFIX.length).split('/').filter(Boolean);
+        const { status, payload } = this.routeFhir(method, segments, url.searchParams, body);
+        send(status, payload);
+        return;
+      }
+
+      const segments = url.pathname.slice(REST_PREFIX.length).split('/').filter(Boolean);
+      this.requests.push(`${method} ${segments.join('/')}`);
+      this.credentials.push(credentialsOf(req));
+      if (this.unavailableRequests > 0) {
+        this.unavailableRequests--;
+        throw new MockRestError(503, 'Service Unavailable', 'mock.unavailable');
+      }
+
+      if (segments[0] === 'session') {
+        const { status, payload, headers } = this.handleSession(req, method, body);
+        send(status, payload, headers);
+        return;
+      }
+
+      if (!this.currentSession(req)) {
+        throw new MockRestError(
+          401,
+          'User is not logged in [Authentication required]',
+          'org.openmrs.api.APIAuthenticationException'
+        );
+      }
+
+      const result = this.route(method, segments, url.searchParams, body);
+      if (result === undefined) {
+        send(204);
+      } else {
+        send(method === 'POST' && segments.length === 1 ? 201 : 200, result);
+      }
+    } catch (error) {
+      if (error instanceof MockRestError) {
+        send(error.status, isFhir ? operationOutcome(error) : error.toBody());
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private handleSession(
+    req: IncomingMessage,
+    method: string,
+    body: Body
+  ): { status: number; payload?: unknown; headers?: Record<string, string> } {
+    if (method === 'DELETE') {
+      const sessionId = sessionCookie(req);
+      if (sessionId) {
+        this.sessions.delete(sessionId);
+      }
+      return { status: 204 };
+    }
+
+    let sessionId = sessionCookie(req);
+    let session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const basicUser = this.basicAuthUser(req);
+    const headers: Record<string, string> = {};
+
+    // Basic credentials log in, replacing whatever session the cookie named
+    if (basicUser) {
+      sessionId = randomUUID().replace(/-/g, '').toUpperCase();
+      session = { username: basicUser.username, locationUuid: undefined };
+      this.sessions.set(sessionId, session);
+      headers['Set-Cookie'] = `JSESSIONID=${sessionId}; Path=/openmrs; HttpOnly`;
+    }
+
+    if (!session || !sessionId) {
+      if (method === 'POST' && req.headers.authorization) {
+        return { status: 200, payload: { authenticated: false, sessionId: '' } };
+      }
+      if (method === 'POST') {
+        throw new MockRestError(
+          401,
+          'User is not logged in [Authentication required]',
+          'org.openmrs.api.APIAuthenticationException'
+        );
+      }
+      return { status: 200, payload: { authenticated: false, sessionId: '' } };
+    }
+
+    if (method === 'POST' && typeof body.sessionLocation === 'string') {
+      const location = this.locations.find(candidate => candidate.uuid === body.sessionLocation);
+      if (!location) {
+        throw badRequest(`Location not found: ${body.sessionLocation}`);
+      }
+      session.locationUuid = location.uuid;
+    }
+
+    return { status: 200, payload: this.sessionPayload(sessionId, session), headers };
+  }
+
+  /**
+   * The form post of the reference application's Merge Patients page: a
+   * redirect to the surviving patient's dashboard on success, the page again
+   * (200) when the merge is refused, and the login page without a session
+   */
+  private handleMergePatientsPage(
+    req: IncomingMessage,
+    raw: string
+  ): { status: number; headers?: Record<string, string> } {
+    if (!this.currentSession(req)) {
+      return { status: 302, headers: { Location: '/openmrs/login.htm' } };
+    }
+
+    const form = new URLSearchParams(raw);
+    const preferred = this.patients.get(form.get('preferred') || '');
+    const notPreferredUuid = [form.get('patient1'), form.get('patient2')].find(
+      uuid => uuid !== preferred?.uuid
+    );
+    const notPreferred = this.patients.get(notPreferredUuid || '');
+    if (!preferred || !notPreferred || preferred.voided || notPreferred.voided) {
+      return { status: 200 };
+    }
+
+    this.mergePatients(preferred, notPreferred);
+    return {
+      status: 302,
+      headers: {
+        Location: `/openmrs/coreapps/clinicianfacing/patient.page?patientId=${preferred.uuid}`,
+      },
+    };
+  }
+
+  /**
+   * What PatientService.mergePatients does: the preferred patient gains the
+   * other's identifiers, names and addresses (none of them preferred),
+   * attributes of types it lacks, and its visits and encounters; the other
+   * patient is voided
+   */
+  private mergePatients(preferred: PatientFull, notPreferred: PatientFull): void {
+    for (const identifier of notPreferred.identifiers.filter(i => !i.voided)) {
+      if (!preferred.identifiers.some(i => i.identifier === identifier.identifier)) {
+        preferred.identifiers.push({ ...identifier, uuid: randomUUID(), preferred: false });
+      }
+    }
+
+    const person = preferred.person;
+    for (const name of notPreferred.person.names) {
+      if (!person.names.some(n => n.display === name.display)) {
+        person.names.push({ ...name, uuid: randomUUID(), preferred: false });
+      }
+    }
+    for (const address of notPreferred.person.addresses) {
+      person.addresses.push({ ...address, uuid: randomUUID(), preferred: false });
+    }
+    for (const attribute of notPreferred.person.attributes) {
+      if (!person.attributes.some(a => a.attributeType.uuid === attribute.attributeType.uuid)) {
+        person.attributes.push({ ...attribute, uuid: randomUUID() });
+      }
+    }
+
+    for (const item of [...this.visits.values(), ...this.encounters.values()]) {
+      if (item.patientUuid === notPreferred.uuid) {
+        item.patientUuid = preferred.uuid;
+      }
+    }
+
+    notPreferred.voided = true;
+    notPreferred.person.voided = true;
+  }
+
+  /**
+   * The FHIR module's Patient resource. Search supports identifier, name,
+   * given, family and _count; the next link of a search page points at the
+   * server root with _getpages, as HAPI FHIR's do. Deleting voids the
+   * patient, and voided patients read as 410 Gone.
+   */
+  private routeFhir(
+    method: string,
+    segments: string[],
+    query: Query,
+    body: Body
+  ): { status: number; payload?: unknown } {
+    const [resourceType, id] = segments;
+    if (method === 'GET' && !resourceType && query.has('_getpages')) {
+      return { status: 200, payload: this.fhirSearchPage(query) };
+    }
+    if (resourceType !== 'Patient') {
+      throw new MockRestError(404, `Unknown resource type: ${resourceType}`, 'not-supported');
+    }
+
+    const key = `${method}${id ? ' :id' : ''}`;
+    switch (key) {
+      case 'GET':
+        return { status: 200, payload: this.searchFhirPatients(query) };
+      case 'GET :id':
+        return { status: 200, payload: fhirPatient(this.getFhirPatient(id)) };
+      case 'POST':
+        return { status: 201, payload: fhirPatient(this.createFhirPatient(body)) };
+      case 'DELETE :id': {
+        const patient = this.getFhirPatient(id);
+        patient.voided = true;
+        patient.person.voided = true;
+        return {
+          status: 200,
+          payload: operationOutcome(
+            new MockRestError(200, 'Successfully deleted 1 resource(s)', 'informational')
+          ),
+        };
+      }
+      default:
+        throw new MockRestError(405, `${method} is not supported on Patient`, 'not-supported');
+    }
+  }
+
+  private getFhirPatient(id: string | undefined): PatientFull {
+    const patient = this.getPatient(id);
+    if (patient.voided) {
+      throw new MockRestError(410, `Resource Patient/${id} is gone/deleted`, 'deleted');
+    }
+    return patient;
+  }
+
+  private searchFhirPatients(query: Query): Bundle<FhirPatient> {
+    const identifier = query.get('identifier');
+    const nameParams = (['name', 'given', 'family'] as const)
+      .map(param => [param, query.get(param)?.toLowerCase()] as const)
+      .filter((entry): entry is readonly ['name' | 'given' | 'family', string] => !!entry[1]);
+
+    const matches = [...this.patients.values()].filter(
+      patient =>
+        !patient.voided &&
+        (!identifier || patient.identifiers.some(i => !i.voided && i.identifier === identifier)) &&
+        nameParams.every(([param, value]) =>
+          patient.person.names.some(name => {
+            const parts = {
+              given: [name.givenName, name.middleName],
+              family: [name.familyName],
+              name: [name.givenName, name.middleName, name.familyName],
+            }[param];
+            return parts.some(part => part?.toLowerCase().startsWith(value));
+          })
+        )
+    );
+
+    const searchId = randomUUID();
+    this.fhirSearches.set(
+      searchId,
+      matches.map(patient => patient.uuid)
+    );
+    const pageQuery = new URLSearchParams({ _getpages: searchId, _getpagesoffset: '0' });
+    if (query.has('_count')) {
+      pageQuery.set('_count', query.get('_count') as string);
+    }
+    return this.fhirSearchPage(pageQuery);
+  }
+
+  private fhirSearchPage(query: Query): Bundle<FhirPatient> {
+    const searchId = query.get('_getpages') || '';
+    const uuids = this.fhirSearches.get(searchId);
+    if (!uuids) {
+      throw new MockRestError(410, `Search ${searchId} has expired`, 'not-found');
+    }
+    const offset = Math.max(0, Number(query.get('_getpagesoffset') || 0));
+    const count = Math.max(1, Number(query.get('_count') || this.options.defaultLimit || 10));
+
+    const fhirBase = `${this.url}${FHIR_PREFIX.slice(0, -1)}`;
+    const pageUrl = (pageOffset: number) =>
+      `${fhirBase}?${new URLSearchParams({
+        _getpages: searchId,
+        _getpagesoffset: String(pageOffset),
+        _count: String(count),
+        _bundletype: 'searchset',
+      })}`;
+    const link = [{ relation: 'self', url: pageUrl(offset) }];
+    if (offset + count < uuids.length) {
+      link.push({ relation: 'next', url: pageUrl(offset + count) });
+    }
+    if (offset > 0) {
+      link.push({ relation: 'previous', url: pageUrl(Math.max(0, offset - count)) });
+    }
+
+    return {
+      resourceType: 'Bundle',
+      id: randomUUID(),
+      type: 'searchset',
+      total: uuids.length,
+      link,
+      entry: uuids
+        .slice(offset, offset + count)
+        .map(uuid => this.patients.get(uuid))
+        .filter((patient): patient is PatientFull => !!patient)
+        .map(patient => ({
+          fullUrl: `${fhirBase}/Patient/${patient.uuid}`,
+          resource: fhirPatient(patient),
+        })),
+    };
+  }
+
+  /**
+   * Create through the REST patient validation: FHIR identifiers name their
+   * type by UUID (type.coding[0].code) or by name (type.text)
+   */
+  private createFhirPatient(body: Body): PatientFull {
+    const genders: Record<string, string> = { male: 'M', female: 'F', other: 'O', unknown: 'U' };
+    return this.createPatient({
+      person: {
+        names: ((body.name || []) as Body[]).map(name => {
+          const [givenName, middleName] = (name.given || []) as string[];
+          return { givenName, middleName, familyName: name.family };
+        }),
+        gender: genders[String(body.gender)],
+        birthdate: body.birthDate,
+      },
+      identifiers: ((body.identifier || []) as Body[]).map(identifier => {
+        const type = (identifier.type || {}) as {
+          coding?: Array<{ code?: string }>;
+          text?: string;
+        };
+        const identifierType = this.identifierTypes.find(
+          t => t.uuid === type.coding?.[0]?.code || t.name === type.text
+        );
+        return {
+          identifier: identifier.value,
+          identifierType: identifierType?.uuid,
+          preferred: identifier.use === 'official',
+        };
+      }),
+    });
+  }
+
+  private sessionPayload(sessionId: string, session: MockSession): Session {
+    const location = this.locations.find(candidate => candidate.uuid === session.locationUuid);
+    const account = [...this.users.values()].find(user => user.username === session.username);
+    return {
+      sessionId,
+      authenticated: true,
+      user: account
+        ? ref(account)
+        : { uuid: `${session.username}-user-uuid`, display: session.username },
+      locale: 'en_GB',
+      sessionLocation: location ? ref(location) : null,
+      currentProvider: null,
+    };
+  }
+
+  private currentSession(req: IncomingMessage): MockSession | undefined {
+    const basicUser = this.basicAuthUser(req);
+    if (basicUser) {
+      return { username: basicUser.username, locationUuid: undefined };
+    }
+    const bearer = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+    if (bearer) {
+      const token = this.accessTokens.get(bearer[1]);
+      return token && token.expiresAt > Date.now()
+        ? { username: token.username, locationUuid: undefined }
+        : undefined;
+    }
+    const sessionId = sessionCookie(req);
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  private basicAuthUser(req: IncomingMessage): MockUser | undefined {
+    const match = /^Basic (.+)$/.exec(req.headers.authorization || '');
+    if (!match) {
+      return undefined;
+    }
+    const [username, ...rest] = Buffer.from(match[1], 'base64').toString().split(':');
+    return this.findAccount(username, rest.join(':'));
+  }
+
+  /**
+   * An account from the options, or a user created through the API and not
+   * retired, with these credentials
+   */
+  private findAccount(username: unknown, password: unknown): MockUser | undefined {
+    const users = [
+      ...(this.options.users || [{ username: 'admin', password: 'Admin123' }]),
+      ...[...this.users.values()].filter(user => !user.retired),
+    ];
+    return users.find(user => user.username === username && user.password === password);
+  }
+
+  /**
+   * The OAuth2 token endpoint (RFC 6749) for oauthClient: the password grant
+   * for any account, client_credentials as the first configured account, and
+   * single-use refresh tokens
+   */
+  private handleToken(raw: string): { status: number; payload: unknown } {
+    const form = new URLSearchParams(raw);
+    const grantType = form.get('grant_type') || '';
+    this.grants.push(grantType);
+
+    const client = this.options.oauthClient || { clientId: 'openmrs-tests' };
+    if (
+      form.get('client_id') !== client.clientId ||
+      (client.clientSecret !== undefined && form.get('client_secret') !== client.clientSecret)
+    ) {
+      return { status: 401, payload: { error: 'invalid_client' } };
+    }
+
+    let username: string | undefined;
+    switch (grantType) {
+      case 'password':
+        username = this.findAccount(form.get('username'), form.get('password'))?.username;
+        break;
+      case 'client_credentials':
+        username = (this.options.users || [{ username: 'admin' }])[0].username;
+        break;
+      case 'refresh_token': {
+        const refreshToken = form.get('refresh_token') || '';
+        username = this.refreshTokens.get(refreshToken);
+        this.refreshTokens.delete(refreshToken);
+        break;
+      }
+      default:
+        return { status: 400, payload: { error: 'unsupported_grant_type' } };
+    }
+    if (!username) {
+      return { status: 400, payload: { error: 'invalid_grant' } };
+    }
+
+    const expiresIn = this.options.tokenExpiresIn ?? 300;
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    this.accessTokens.set(accessToken, { username, expiresAt: Date.now() + expiresIn * 1000 });
+    this.refreshTokens.set(refreshToken, username);
+    return {
+      status: 200,
+      payload: {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: expiresIn,
+        refresh_token: refreshToken,
+      },
+    };
+  }
+
+  private route(method: string, segments: string[], query: Query, body: Body): unknown {
+    // Module resources are namespaced, e.g. idgen/identifiersource/{uuid}
+    const [resource, uuid, subResource, subResourceUuid] =
+      segments[0] === 'idgen' ? [segments.slice(0, 2).join('/'), ...segments.slice(2)] : segments;
+    const key = `${method} ${resource}${uuid ? '/:uuid' : ''}${subResource ? `/${subResource}` : ''}${
+      subResourceUuid ? '/:uuid' : ''
+    }`;
+
+    switch (key) {
+      case 'GET systeminfo':
+        return this.systemInfo();
+      case 'GET location':
+        return this.listLocations(query);
+      case 'GET location/:uuid':
+        return this.findOrThrow(this.locations, uuid);
+      case 'GET patientidentifiertype':
+        return list(this.identifierTypes);
+      case 'GET idgen/identifiersource':
+        return list(this.identifierSources);
+      case 'POST idgen/identifiersource/:uuid/identifier':
+        return this.generateIdentifier(uuid);
+      case 'GET personattributetype':
+        return list(this.personAttributeTypes);
+      case 'GET visittype':
+        return list(this.visitTypes);
+      case 'GET encountertype':
+        return list(this.encounterTypes);
+      case 'GET concept':
+        return this.searchConcepts(query);
+      case 'GET concept/:uuid':
+        return this.findOrThrow(this.concepts, uuid);
+      case 'GET systemsetting':
+        return this.searchSystemSettings(query);
+      case 'GET systemsetting/:uuid':
+        return this.getSystemSetting(uuid);
+      case 'POST systemsetting':
+        return this.createSystemSetting(body);
+      case 'POST systemsetting/:uuid':
+        return this.updateSystemSetting(uuid, body);
+      case 'DELETE systemsetting/:uuid':
+        this.systemSettings = this.systemSettings.filter(
+          setting => setting !== this.getSystemSetting(uuid)
+        );
+        return undefined;
+      case 'GET relationshiptype':
+        return list(this.relationshipTypes);
+      case 'GET relationship':
+        return this.listRelationships(query);
+      case 'GET relationship/:uuid':
+        return this.relationshipPayload(this.getFrom(this.relationships, uuid));
+      case 'POST relationship':
+        return this.createRelationship(body);
+      case 'DELETE relationship/:uuid':
+        return this.deleteFrom(this.relationships, uuid, query);
+      case 'GET condition':
+        return this.listConditions(query);
+      case 'GET condition/:uuid':
+        return this.conditionPayload(this.getFrom(this.conditions, uuid));
+      case 'POST condition':
+        return this.createCondition(body);
+      case 'DELETE condition/:uuid':
+        return this.deleteFrom(this.conditions, uuid, query);
+      case 'POST patient':
+        return this.createPatient(body);
+      case 'GET patient':
+        return this.searchPatients(query);
+      case 'GET patient/:uuid':
+        return this.getPatient(uuid);
+      case 'DELETE patient/:uuid':
+        return this.deletePatient(uuid, query);
+      case 'GET patient/:uuid/identifier':
+        return list(this.getPatient(uuid).identifiers);
+      case 'GET patient/:uuid/allergy':
+        return this.listAllergies(uuid);
+      case 'POST patient/:uuid/allergy':
+        return this.createAllergy(uuid, body);
+      case 'DELETE patient/:uuid/allergy/:uuid':
+        this.getPatient(uuid);
+        return this.deleteFrom(this.allergies, subResourceUuid, query);
+      case 'GET role':
+        return list(this.roles);
+      case 'GET role/:uuid':
+        return this.findOrThrow(this.roles, uuid);
+      case 'POST user':
+        return this.createUser(body);
+      case 'GET user/:uuid':
+        return userPayload(this.getFrom(this.users, uuid));
+      case 'POST user/:uuid':
+        return this.updateUser(uuid, body);
+      case 'DELETE user/:uuid':
+        return this.retireFrom(this.users, uuid, query);
+      case 'POST provider':
+        return this.createProvider(body);
+      case 'GET provider/:uuid':
+        return this.getFrom(this.providers, uuid);
+      case 'DELETE provider/:uuid':
+        return this.retireFrom(this.providers, uuid, query);
+      case 'POST person':
+        return this.createPerson(body);
+      case 'DELETE person/:uuid':
+        return this.deletePerson(uuid, query);
+      case 'POST visit':
+        return this.createVisit(body);
+      case 'POST visit/:uuid':
+        return this.updateVisit(uuid, body);
+      case 'GET visit':
+        return this.listVisits(query);
+      case 'DELETE visit/:uuid':
+        return this.deleteFrom(this.visits, uuid, query);
+      case 'POST encounter':
+        return this.createEncounter(body);
+      case 'GET encounter':
+        return this.listEncounters(query);
+      case 'GET encounter/:uuid':
+        return this.encounterPayload(this.getFrom(this.encounters, uuid));
+      case 'DELETE encounter/:uuid':
+        return this.deleteFrom(this.encounters, uuid, query);
+      default:
+        throw new MockRestError(404, `Unknown resource: ${segments.join('/')}`, 'mock.not.found');
+    }
+  }
+
+  private systemInfo(): SystemInfo {
+    return {
+      systemInfo: {
+        systemInfo: {
+          'OpenMRS Information': {
+            'OpenMRS Version': '2.6.0 (OpenMRS mock server)',
+            'Server Time': new Date().toISOString(),
+          },
+        },
+      },
+    };
+  }
+
+  private listLocations(query: Query): unknown {
+    const tag = query.get('tag');
+    const includeRetired = query.get('includeAll') === 'true';
+    return list(
+      this.locations.filter(
+        location =>
+          (includeRetired || !location.retired) &&
+          (!tag || location.tags.some(t => t.uuid === tag || t.display === tag))
+      )
+    );
+  }
+
+  private generateIdentifier(sourceUuid: string | undefined): unknown {
+    if (!this.identifierSources.some(source => source.uuid === sourceUuid)) {
+      throw notFound();
+    }
+    this.identifierCounter++;
+    return { identifier: `10${String(this.identifierCounter).padStart(4, '0')}M` };
+  }
+
+  private searchConcepts(query: Query): unknown {
+    const q = query.get('q')?.toLowerCase();
+    const source = query.get('source');
+    const code = query.get('code');
+    if (source && code) {
+      const mapping = `${source}:${code}`.toUpperCase();
+      return list(this.concepts.filter(concept => concept.mappingCodes.includes(mapping)));
+    }
+    if (!q) {
+      throw badRequest('The concept search requires q, or source and code');
+    }
+    return list(this.concepts.filter(concept => concept.display.toLowerCase().includes(q)));
+  }
+
+  private searchSystemSettings(query: Query): unknown {
+    const q = (query.get('q') || '').toLowerCase();
+    return list(this.systemSettings.filter(s => s.property.toLowerCase().includes(q)));
+  }
+
+  /** Looked up by UUID or, like the REST module does, by property name */
+  private getSystemSetting(uuidOrProperty: string | undefined): SystemSetting {
+    const setting = this.systemSettings.find(
+      s => s.uuid === uuidOrProperty || s.property === uuidOrProperty
+    );
+    if (!setting) {
+      throw notFound();
+    }
+    return setting;
+  }
+
+  private createSystemSetting(body: Body): SystemSetting {
+    const property = typeof body.property === 'string' ? body.property.trim() : '';
+    if (!property) {
+      throw invalidSubmission('property', 'error.name', 'Property name is required');
+    }
+    if (this.systemSettings.some(s => s.property === property)) {
+      throw invalidSubmission(
+        'property',
+        'GlobalProperty.error.name.duplicate',
+        `Global property ${property} already exists`
+      );
+    }
+    const setting = systemSetting(
+      property,
+      stringOrNull(body.value),
+      stringOrNull(body.description)
+    );
+    this.systemSettings.push(setting);
+    return setting;
+  }
+
+  private updateSystemSetting(uuid: string | undefined, body: Body): SystemSetting {
+    const setting = this.getSystemSetting(uuid);
+    if ('value' in body) {
+      setting.value = stringOrNull(body.value);
+      setting.display = `${setting.property} = ${setting.value ?? ''}`;
+    }
+    if ('description' in body) {
+      setting.description = stringOrNull(body.description);
+    }
+    return setting;
+  }
+
+  private createPatient(body: Body): PatientFull {
+    const person = (body.person || {}) as Body;
+    const names = (person.names || []) as Body[];
+    const identifiers = (body.identifiers || []) as Body[];
+
+    if (names.length === 0 || !names[0].givenName || !names[0].familyName) {
+      throw invalidSubmission(
+        'person.names',
+        'Person.names.length',
+        'Person should have at least one name with a given and family name'
+      );
+    }
+    if (!['M', 'F', 'O', 'U'].includes(String(person.gender))) {
+      throw invalidSubmission('person.gender', 'Person.gender.required', 'Gender can not be null');
+    }
+    if (typeof person.birthdate === 'string' && new Date(person.birthdate) > new Date()) {
+      throw invalidSubmission(
+        'person.birthdate',
+        'error.date.future',
+        'Birthdate cannot be in the future'
+      );
+    }
+    if (identifiers.length === 0) {
+      throw invalidSubmission(
+        'identifiers',
+        'Patient.identifiers.required',
+        'Patient is missing the required identifier(s)'
+      );
+    }
+
+    const fullIdentifiers = identifiers.map((identifier, index) => {
+      const identifierType = this.identifierTypes.find(t => t.uuid === identifier.identifierType);
+      if (!identifierType) {
+        throw invalidSubmission(
+          `identifiers[${index}].identifierType`,
+          'PatientIdentifier.identifierType.null',
+          'Identifier type is required'
+        );
+      }
+      const value = String(identifier.identifier || '');
+      const inUse = [...this.patients.values()].some(
+        patient => !patient.voided && patient.identifiers.some(i => i.identifier === value)
+      );
+      if (inUse) {
+        throw invalidSubmission(
+          `identifiers[${index}].identifier`,
+          'PatientIdentifier.error.duplicateIdentifier',
+          `Identifier ${value} already in use by another patient`
+        );
+      }
+      const location = this.locations.find(l => l.uuid === identifier.location);
+      const patientIdentifier: PatientIdentifier = {
+        uuid: randomUUID(),
+        display: `${identifierType.display} = ${value}`,
+        identifier: value,
+        identifierType: ref(identifierType),
+        location: location ? ref(location) : null,
+        preferred: identifier.preferred === true || identifiers.length === 1,
+        voided: false,
+      };
+      return patientIdentifier;
+    });
+
+    const personRecord = this.buildPerson(person);
+    const preferredIdentifier = fullIdentifiers.find(i => i.preferred) || fullIdentifiers[0];
+    const patient: PatientFull = {
+      uuid: personRecord.uuid,
+      display: `${preferredIdentifier.identifier} - ${personRecord.display}`,
+      identifiers: fullIdentifiers,
+      person: personRecord,
+      voided: false,
+      auditInfo: auditInfo(),
+    };
+    this.patients.set(patient.uuid, patient);
+    return patient;
+  }
+
+  private buildPerson(person: Body): PersonFull {
+    const uuid = randomUUID();
+    const names = ((person.names || []) as Body[]).map((name, index) => ({
+      uuid: randomUUID(),
+      display: [name.givenName, name.middleName, name.familyName].filter(Boolean).join(' '),
+      givenName: String(name.givenName),
+      middleName: name.middleName ? String(name.middleName) : null,
+      familyName: String(name.familyName),
+      familyName2: null,
+      preferred: index === 0,
+      voided: false,
+    }));
+    const addresses = ((person.addresses || []) as Body[]).map((address, index) => ({
+      uuid: randomUUID(),
+      display: String(address.address1 || ''),
+      preferred: index === 0,
+      address1: stringOrNull(address.address1),
+      address2: stringOrNull(address.address2),
+      cityVillage: stringOrNull(address.cityVillage),
+      stateProvince: stringOrNull(address.stateProvince),
+      country: stringOrNull(address.country),
+      postalCode: stringOrNull(address.postalCode),
+      countyDistrict: stringOrNull(address.countyDistrict),
+      startDate: null,
+      endDate: null,
+      voided: false,
+    }));
+    const attributes = ((person.attributes || []) as Body[]).map(attribute => {
+      const attributeType = this.personAttributeTypes.find(t => t.uuid === attribute.attributeType);
+      if (!attributeType) {
+        throw invalidSubmission(
+          'person.attributes',
+          'PersonAttribute.attributeType.null',
+          'Attribute type is required'
+        );
+      }
+      return {
+        uuid: randomUUID(),
+        display: `${attributeType.display} = ${attribute.value}`,
+        value: String(attribute.value),
+        attributeType: ref(attributeType),
+        voided: false,
+      };
+    });
+
+    const birthdate = typeof person.birthdate === 'string' ? person.birthdate : null;
+    return {
+      uuid,
+      display: names[0]?.display || '',
+      gender: String(person.gender),
+      age: birthdate ? ageFrom(birthdate) : null,
+      birthdate: birthdate ? `${birthdate.slice(0, 10)}T00:00:00.000+0000` : null,
+      birthdateEstimated: false,
+      dead: false,
+      deathDate: null,
+      causeOfDeath: null,
+      preferredName: names[0],
+      preferredAddress: addresses[0] || null,
+      names,
+      addresses,
+      attributes,
+      voided: false,
+      auditInfo: auditInfo(),
+    };
+  }
+
+  private searchPatients(query: Query): unknown {
+    const q = query.get('q')?.toLowerCase();
+    const identifier = query.get('identifier');
+    if (!q && !identifier) {
+      throw badRequest('The patient search requires q or identifier');
+    }
+
+    const includeVoided = query.get('includeAll') === 'true';
+    const matches = [...this.patients.values()].filter(patient => {
+      if (patient.voided && !includeVoided) {
+        return false;
+      }
+      if (identifier) {
+        return patient.identifiers.some(i => i.identifier === identifier);
+      }
+      const nameParts = patient.person.names.flatMap(name =>
+        [name.givenName, name.middleName, name.familyName].filter(Boolean).map(String)
+      );
+      return (
+        patient.identifiers.some(i => i.identifier.toLowerCase() === q) ||
+        (q || '')
+          .split(/\s+/)
+          .every(term => nameParts.some(part => part.toLowerCase().startsWith(term)))
+      );
+    });
+
+    return this.paginate(matches, query, 'patient');
+  }
+
+  private getPatient(uuid: string | undefined): PatientFull {
+    const patient = uuid ? this.patients.get(uuid) : undefined;
+    if (!patient) {
+      throw notFound();
+    }
+    return patient;
+  }
+
+  private deletePatient(uuid: string | undefined, query: Query): undefined {
+    const patient = this.getPatient(uuid);
+    if (query.get('purge') === 'true') {
+      const hasData = [...this.visits.values(), ...this.encounters.values()].some(
+        item => item.patientUuid === patient.uuid
+      );
+      if (hasData) {
+        throw new MockRestError(
+          500,
+          'Cannot purge a patient that still has visits or encounters',
+          'org.hibernate.exception.ConstraintViolationException'
+        );
+      }
+      this.patients.delete(patient.uuid);
+    } else {
+      patient.voided = true;
+      patient.person.voided = true;
+    }
+    return undefined;
+  }
+
+  private createPerson(body: Body): PersonFull {
+    if (!['M', 'F', 'O', 'U'].includes(String(body.gender))) {
+      throw invalidSubmission('gender', 'Person.gender.required', 'Gender can not be null');
+    }
+    const person = this.buildPerson(body);
+    this.persons.set(person.uuid, person);
+    return person;
+  }
+
+  private deletePerson(uuid: string | undefined, query: Query): undefined {
+    const person = this.getFrom(this.persons, uuid);
+    if (query.get('purge') === 'true') {
+      this.persons.delete(person.uuid);
+    } else {
+      person.voided = true;
+    }
+    return undefined;
+  }
+
+  /**
+   * A user for an existing person (UUID) or a new one (person details), with
+   * the roles given by UUID; it can log in until it is retired
+   */
+  private createUser(body: Body): unknown {
+    if (typeof body.username !== 'string' || !body.username) {
+      throw invalidSubmission('username', 'error.null', 'Username is required');
+    }
+    if ([...this.users.values()].some(user => user.username === body.username)) {
+      throw invalidSubmission('username', 'error.username.taken', 'Username is already in use');
+    }
+    if (typeof body.password !== 'string' || body.password.length < 8) {
+      throw invalidSubmission(
+        'password',
+        'error.password.length',
+        'Password should be at least 8 characters long'
+      );
+    }
+
+    const person =
+      typeof body.person === 'string'
+        ? this.getPersonReference(body.person, 'person')
+        : this.createPerson((body.person || {}) as Body);
+    const account: MockUserAccount = {
+      uuid: randomUUID(),
+      display: body.username,
+      username: body.username,
+      systemId: String(this.users.size + 2),
+      userProperties: {},
+      person: ref(person),
+      privileges: [],
+      roles: [],
+      retired: false,
+      password: body.password,
+    };
+    this.setRoles(account, body.roles);
+    this.users.set(account.uuid, account);
+    return userPayload(account);
+  }
+
+  /**
+   * Update a user; roles, when given, replace the ones it has
+   */
+  private updateUser(uuid: string | undefined, body: Body): unknown {
+    const account = this.getFrom(this.users, uuid);
+    if (body.roles !== undefined) {
+      this.setRoles(account, body.roles);
+    }
+    return userPayload(account);
+  }
+
+  private setRoles(account: MockUserAccount, roleUuids: unknown): void {
+    const roles = (Array.isArray(roleUuids) ? roleUuids : []).map(value => {
+      const uuid = typeof value === 'string' ? value : ((value || {}) as Body).uuid;
+      const role = this.roles.find(candidate => candidate.uuid === uuid);
+      if (!role) {
+        throw invalidSubmission('roles', 'error.role', `Role not found: ${String(uuid)}`);
+      }
+      return role;
+    });
+    account.roles = roles.map(ref);
+    account.privileges = [
+      ...new Map(
+        roles.flatMap(role => role.privileges).map(privilege => [privilege.uuid, privilege])
+      ).values(),
+    ];
+  }
+
+  private createProvider(body: Body): Provider {
+    const person = this.getPersonReference(body.person, 'person');
+    if (typeof body.identifier !== 'string' || !body.identifier) {
+      throw invalidSubmission('identifier', 'error.null', 'Identifier is required');
+    }
+    if ([...this.providers.values()].some(provider => provider.identifier === body.identifier)) {
+      throw invalidSubmission(
+        'identifier',
+        'Provider.error.duplicateIdentifier',
+        'Identifier is already in use by another provider'
+      );
+    }
+    const provider: Provider = {
+      uuid: randomUUID(),
+      display: `${body.identifier} - ${person.display}`,
+      person: ref(person),
+      identifier: body.identifier,
+      attributes: [],
+      retired: false,
+    };
+    this.providers.set(provider.uuid, provider);
+    return provider;
+  }
+
+  private createVisit(body: Body): unknown {
+    const patient = this.getPatientReference(body.patient);
+    const visitType = this.visitTypes.find(t => t.uuid === body.visitType);
+    if (!visitType) {
+      throw invalidSubmission(
+        'visitType',
+        'Visit.error.visitType.required',
+        'Visit type is required'
+      );
+    }
+    const visit: MockVisit = {
+      uuid: randomUUID(),
+      patientUuid: patient.uuid,
+      visitTypeUuid: visitType.uuid,
+      locationUuid: typeof body.location === 'string' ? body.location : undefined,
+      startDatetime: typeof body.startDatetime === 'string' ? body.startDatetime : now(),
+      stopDatetime: null,
+      voided: false,
+    };
+    this.visits.set(visit.uuid, visit);
+    return this.visitPayload(visit);
+  }
+
+  private updateVisit(uuid: string | undefined, body: Body): unknown {
+    const visit = this.getFrom(this.visits, uuid);
+    if (typeof body.stopDatetime === 'string') {
+      visit.stopDatetime = body.stopDatetime;
+    }
+    return this.visitPayload(visit);
+  }
+
+  private listVisits(query: Query): unknown {
+    const patientUuid = query.get('patient');
+    const includeInactive = query.get('includeInactive') !== 'false';
+    const includeVoided = query.get('includeAll') === 'true';
+    return list(
+      [...this.visits.values()]
+        .filter(
+          visit =>
+            (!patientUuid || visit.patientUuid === patientUuid) &&
+            (includeInactive || !visit.stopDatetime) &&
+            (includeVoided || !visit.voided)
+        )
+        .map(visit => this.visitPayload(visit))
+    );
+  }
+
+  private visitPayload(visit: MockVisit): unknown {
+    const patient = this.patients.get(visit.patientUuid);
+    const visitType = this.visitTypes.find(t => t.uuid === visit.visitTypeUuid);
+    const location = this.locations.find(l => l.uuid === visit.locationUuid);
+    return {
+      uuid: visit.uuid,
+      display: `${visitType?.display} @ ${location?.display || 'Unknown Location'}`,
+      patient: patient ? ref(patient) : null,
+      visitType: visitType ? ref(visitType) : null,
+      indication: null,
+      location: location ? ref(location) : null,
+      startDatetime: visit.startDatetime,
+      stopDatetime: visit.stopDatetime,
+      encounters: [...this.encounters.values()]
+        .filter(encounter => encounter.visitUuid === visit.uuid)
+        .map(encounter => ({ uuid: encounter.uuid, display: 'Encounter' })),
+      attributes: [],
+      voided: visit.voided,
+    };
+  }
+
+  private createEncounter(body: Body): unknown {
+    const patient = this.getPatientReference(body.patient);
+    const encounterType = this.encounterTypes.find(t => t.uuid === body.encounterType);
+    if (!encounterType) {
+      throw invalidSubmission(
+        'encounterType',
+        'Encounter.error.encounterType.required',
+        'Encounter type is required'
+      );
+    }
+    if (typeof body.visit === 'string' && !this.visits.has(body.visit)) {
+      throw invalidSubmission('visit', 'Encounter.visit.invalid', 'Visit not found');
+    }
+
+    const obs = ((body.obs || []) as Body[]).map((ob, index) => {
+      if (!this.concepts.some(concept => concept.uuid === ob.concept)) {
+        throw invalidSubmission(`obs[${index}].concept`, 'Obs.error.concept', 'Concept not found');
+      }
+      return {
+        uuid: randomUUID(),
+        conceptUuid: String(ob.concept),
+        value: typeof ob.value === 'number' ? ob.value : String(ob.value),
+      };
+    });
+
+    const encounter: MockEncounter = {
+      uuid: randomUUID(),
+      patientUuid: patient.uuid,
+      encounterTypeUuid: encounterType.uuid,
+      locationUuid: typeof body.location === 'string' ? body.location : undefined,
+      visitUuid: typeof body.visit === 'string' ? body.visit : undefined,
+      encounterDatetime:
+        typeof body.encounterDatetime === 'string' ? body.encounterDatetime : now(),
+      obs,
+      voided: false,
+    };
+    this.encounters.set(encounter.uuid, encounter);
+    return this.encounterPayload(encounter);
+  }
+
+  private listEncounters(query: Query): unknown {
+    const patientUuid = query.get('patient');
+    const includeVoided = query.get('includeAll') === 'true';
+    return list(
+      [...this.encounters.values()]
+        .filter(
+          encounter =>
+            (!patientUuid || encounter.patientUuid === patientUuid) &&
+            (includeVoided || !encounter.voided)
+        )
+        .map(encounter => this.encounterPayload(encounter))
+    );
+  }
+
+  private encounterPayload(encounter: MockEncounter): unknown {
+    const patient = this.patients.get(encounter.patientUuid);
+    const encounterType = this.encounterTypes.find(t => t.uuid === encounter.encounterTypeUuid);
+    const location = this.locations.find(l => l.uuid === encounter.locationUuid);
+    return {
+      uuid: encounter.uuid,
+      display: `${encounterType?.display} ${encounter.encounterDatetime.slice(0, 10)}`,
+      encounterDatetime: encounter.encounterDatetime,
+      patient: patient ? ref(patient) : null,
+      location: location ? ref(location) : null,
+      form: null,
+      encounterType: encounterType ? ref(encounterType) : null,
+      obs: encounter.obs.map(ob => {
+        const concept = this.concepts.find(c => c.uuid === ob.conceptUuid);
+        return {
+          uuid: ob.uuid,
+          display: `${concept?.display}: ${ob.value}`,
+          concept: concept ? ref(concept) : null,
+          person: patient ? ref(patient.person) : null,
+          obsDatetime: encounter.encounterDatetime,
+          encounter: { uuid: encounter.uuid, display: 'Encounter' },
+          location: location ? ref(location) : null,
+          value: ob.value,
+          voided: false,
+        };
+      }),
+      orders: [],
+      visit: encounter.visitUuid ? { uuid: encounter.visitUuid, display: 'Visit' } : null,
+      encounterProviders: [],
+      voided: encounter.voided,
+    };
+  }
+
+  private listRelationships(query: Query): unknown {
+    const person = query.get('person');
+    const personA = query.get('personA');
+    const personB = query.get('personB');
+    return list(
+      [...this.relationships.values()]
+        .filter(
+          relationship =>
+            !relationship.voided &&
+            (!person ||
+              relationship.personAUuid === person ||
+              relationship.personBUuid === person) &&
+            (!personA || relationship.personAUuid === personA) &&
+            (!personB || relationship.personBUuid === personB)
+        )
+        .map(relationship => this.relationshipPayload(relationship))
+    );
+  }
+
+  private createRelationship(body: Body): unknown {
+    const personA = this.getPersonReference(body.personA, 'personA');
+    const personB = this.getPersonReference(body.personB, 'personB');
+    const relationshipType = this.relationshipTypes.find(t => t.uuid === body.relationshipType);
+    if (!relationshipType) {
+      throw invalidSubmission(
+        'relationshipType',
+        'Relationship.relationshipType.required',
+        'Relationship type is required'
+      );
+    }
+    const relationship: MockRelationship = {
+      uuid: randomUUID(),
+      personAUuid: personA.uuid,
+      personBUuid: personB.uuid,
+      relationshipTypeUuid: relationshipType.uuid,
+      voided: false,
+    };
+    this.relationships.set(relationship.uuid, relationship);
+    return this.relationshipPayload(relationship);
+  }
+
+  private relationshipPayload(relationship: MockRelationship): unknown {
+    const personA = this.findPerson(relationship.personAUuid);
+    const personB = this.findPerson(relationship.personBUuid);
+    const relationshipType = this.relationshipTypes.find(
+      t => t.uuid === relationship.relationshipTypeUuid
+    );
+    return {
+      uuid: relationship.uuid,
+      display: `${personA?.display} is the ${relationshipType?.aIsToB} of ${personB?.display}`,
+      personA: personA ? ref(personA) : null,
+      personB: personB ? ref(personB) : null,
+      relationshipType: relationshipType ? ref(relationshipType) : null,
+      startDate: null,
+      endDate: null,
+      voided: relationship.voided,
+    };
+  }
+
+  /** Persons created directly, or the person of a patient (same UUID) */
+  private findPerson(uuid: string): PersonFull | undefined {
+    return this.persons.get(uuid) || this.patients.get(uuid)?.person;
+  }
+
+  private getPersonReference(personUuid: unknown, field: string): PersonFull {
+    const person = typeof personUuid === 'string' ? this.findPerson(personUuid) : undefined;
+    if (!person || person.voided) {
+      throw invalidSubmission(field, 'error.null', 'Person is required');
+    }
+    return person;
+  }
+
+  private listAllergies(patientUuid: string | undefined): unknown {
+    const patient = this.getPatient(patientUuid);
+    return list(
+      [...this.allergies.values()]
+        .filter(allergy => allergy.patientUuid === patient.uuid && !allergy.voided)
+        .map(allergy => this.allergyPayload(allergy))
+    );
+  }
+
+  private createAllergy(patientUuid: string | undefined, body: Body): unknown {
+    const patient = this.getPatient(patientUuid);
+    const allergen = (body.allergen || {}) as Body;
+    if (!ALLERGEN_TYPES.includes(String(allergen.allergenType))) {
+      throw invalidSubmission(
+        'allergen.allergenType',
+        'allergyapi.allergenType.required',
+        'Allergen type is required'
+      );
+    }
+    const codedAllergen = this.conceptReference(allergen.codedAllergen, 'allergen.codedAllergen');
+    const nonCodedAllergen = stringOrNull(allergen.nonCodedAllergen);
+    if (codedAllergen.uuid === OTHER_NON_CODED && !nonCodedAllergen) {
+      throw invalidSubmission(
+        'allergen.nonCodedAllergen',
+        'allergyapi.allergen.nonCodedAllergen.required',
+        'Non coded allergen is required for an "Other non-coded" allergen'
+      );
+    }
+
+    const allergy: MockAllergy = {
+      uuid: randomUUID(),
+      display: nonCodedAllergen || codedAllergen.display,
+      allergen: {
+        allergenType: allergen.allergenType as Allergy['allergen']['allergenType'],
+        codedAllergen: ref(codedAllergen),
+        ...(nonCodedAllergen ? { nonCodedAllergen } : {}),
+      },
+      severity: body.severity ? ref(this.conceptReference(body.severity, 'severity')) : null,
+      comment: stringOrNull(body.comment),
+      reactions: ((body.reactions || []) as Body[]).map((reaction, index) => ({
+        reaction: ref(this.conceptReference(reaction.reaction, `reactions[${index}].reaction`)),
+        reactionNonCoded: null,
+      })),
+      patientUuid: patient.uuid,
+      voided: false,
+    };
+    this.allergies.set(allergy.uuid, allergy);
+    return this.allergyPayload(allergy);
+  }
+
+  private allergyPayload({ patientUuid: _patientUuid, ...allergy }: MockAllergy): unknown {
+    return allergy;
+  }
+
+  private listConditions(query: Query): unknown {
+    const patientUuid = query.get('patientUuid');
+    const includeVoided = query.get('includeAll') === 'true';
+    return list(
+      [...this.conditions.values()]
+        .filter(
+          condition =>
+            (!patientUuid || condition.patientUuid === patientUuid) &&
+            (includeVoided || !condition.voided)
+        )
+        .map(condition => this.conditionPayload(condition))
+    );
+  }
+
+  private createCondition(body: Body): unknown {
+    const patient = this.getPatientReference(body.patient);
+    const coded = ((body.condition || {}) as Body).coded;
+    const nonCoded = stringOrNull(((body.condition || {}) as Body).nonCoded);
+    if (!coded && !nonCoded) {
+      throw invalidSubmission(
+        'condition',
+        'Condition.error.codedOrNonCodedRequired',
+        'A coded or non-coded condition is required'
+      );
+    }
+    const clinicalStatus = String(body.clinicalStatus);
+    if (!CLINICAL_STATUSES.includes(clinicalStatus)) {
+      throw invalidSubmission(
+        'clinicalStatus',
+        'Condition.clinicalStatusShouldNotBeNull',
+        'Clinical status is required'
+      );
+    }
+    const codedConcept = coded ? this.conceptReference(coded, 'condition.coded') : undefined;
+
+    const condition: MockCondition = {
+      uuid: randomUUID(),
+      display: codedConcept?.display || nonCoded || '',
+      condition: { coded: codedConcept ? ref(codedConcept) : null, nonCoded },
+      clinicalStatus: clinicalStatus as Condition['clinicalStatus'],
+      verificationStatus: stringOrNull(body.verificationStatus),
+      onsetDate: stringOrNull(body.onsetDate),
+      endDate: null,
+      voided: false,
+      patientUuid: patient.uuid,
+    };
+    this.conditions.set(condition.uuid, condition);
+    return this.conditionPayload(condition);
+  }
+
+  private conditionPayload({ patientUuid, ...condition }: MockCondition): unknown {
+    const patient = this.patients.get(patientUuid);
+    return { ...condition, patient: patient ? ref(patient) : null };
+  }
+
+  /**
+   * A concept given as a UUID or as { uuid }, as the REST module accepts both
+   */
+  private conceptReference(value: unknown, field: string): Concept {
+    const uuid = typeof value === 'string' ? value : ((value || {}) as Body).uuid;
+    const concept = this.concepts.find(candidate => candidate.uuid === uuid);
+    if (!concept) {
+      throw invalidSubmission(field, 'error.concept', 'Concept not found');
+    }
+    return concept;
+  }
+
+  private getPatientReference(patientUuid: unknown): PatientFull {
+    const patient = typeof patientUuid === 'string' ? this.patients.get(patientUuid) : undefined;
+    if (!patient || patient.voided) {
+      throw invalidSubmission('patient', 'error.null', 'Patient is required');
+    }
+    return patient;
+  }
+
+  private getFrom<T>(records: Map<string, T>, uuid: string | undefined): T {
+    const record = uuid ? records.get(uuid) : undefined;
+    if (!record) {
+      throw notFound();
+    }
+    return record;
+  }
+
+  private deleteFrom<T extends { voided: boolean }>(
+    records: Map<string, T>,
+    uuid: string | undefined,
+    query: Query
+  ): undefined {
+    const record = this.getFrom(records, uuid);
+    if (query.get('purge') === 'true') {
+      records.delete(uuid as string);
+    } else {
+      record.voided = true;
+    }
+    return undefined;
+  }
+
+  private retireFrom<T extends { retired: boolean }>(
+    records: Map<string, T>,
+    uuid: string | undefined,
+    query: Query
+  ): undefined {
+    const record = this.getFrom(records, uuid);
+    if (query.get('purge') === 'true') {
+      records.delete(uuid as string);
+    } else {
+      record.retired = true;
+    }
+    return undefined;
+  }
+
+  private findOrThrow<T extends OpenmrsRef>(records: T[], uuid: string | undefined): T {
+    const record = records.find(candidate => candidate.uuid === uuid);
+    if (!record) {
+      throw notFound();
+    }
+    return record;
+  }
+
+  /**
+   * One page of results with next/prev links, like the REST module's paging
+   */
+  private paginate<T>(results: T[], query: Query, resource: string): unknown {
+    const startIndex = Math.max(0, Number(query.get('startIndex') || 0));
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, Number(query.get('limit') || this.options.defaultLimit || 50))
+    );
+    const page = results.slice(startIndex, startIndex + limit);
+
+    const linkTo = (index: number) => {
+      const params = new URLSearchParams(query);
+      params.set('startIndex', String(index));
+      params.set('limit', String(limit));
+      return `${this.url}${REST_PREFIX}${resource}?${params}`;
+    };
+    const links = [];
+    if (startIndex + limit < results.length) {
+      links.push({ rel: 'next', uri: linkTo(startIndex + limit) });
+    }
+    if (startIndex > 0) {
+      links.push({ rel: 'prev', uri: linkTo(Math.max(0, startIndex - limit)) });
+    }
+
+    return links.length > 0 ? { results: page, links } : { results: page };
+  }
+
+  private seedReferenceData(): void {
+    const loginTag = { uuid: 'b8bbf83e-645f-451f-8efe-a0db56f09676', display: 'Login Location' };
+    const visitTag = { uuid: '37dd4458-dc9e-4ae6-a1f1-789c1162d37b', display: 'Visit Location' };
+    const hospital = location('aff27d58-a15c-49a6-9beb-d30dcfc0c66e', 'Amani Hospital', [visitTag]);
+    this.locations = [
+      hospital,
+      ...[
+        ['b1a8b05e-3542-4037-bbd3-998ee9c40574', 'Inpatient Ward'],
+        ['2131aff8-2e2a-480a-b7ab-4ac53250262b', 'Isolation Ward'],
+        ['7fdfa2cb-bc95-405a-88c6-32b7673c0453', 'Laboratory'],
+        ['58c57d25-8d39-41ab-8422-108a0c277d98', 'Outpatient Clinic'],
+        ['7f65d926-57d6-4402-ae10-a5b3bcbf7986', 'Pharmacy'],
+        ['6351fcf4-e311-4a19-90f9-35667d99a8af', 'Registration Desk'],
+      ].map(([uuid, name]) => ({
+        ...location(uuid, name, [loginTag]),
+        parentLocation: ref(hospital),
+      })),
+      {
+        ...location('8d6c993e-c2cc-11de-8d13-0010c6dffd0f', 'Unknown Location', []),
+        retired: true,
+      },
+    ];
+    hospital.childLocations = this.locations
+      .filter(l => l.parentLocation?.uuid === hospital.uuid)
+      .map(ref);
+
+    const openmrsId: PatientIdentifierType = {
+      uuid: '05a29f94-c0ed-11e2-94be-8c13d3f6d2d2',
+      display: 'OpenMRS ID',
+      name: 'OpenMRS ID',
+      description: 'OpenMRS patient identifier, with check-digit',
+      format: null,
+      required: true,
+      retired: false,
+    };
+    this.identifierTypes = [
+      openmrsId,
+      {
+        uuid: '8d79403a-c2cc-11de-8d13-0010c6dffd0f',
+        display: 'Old Identification Number',
+        name: 'Old Identification Number',
+        description: 'Number given out prior to the OpenMRS system',
+        format: null,
+        required: false,
+        retired: false,
+      },
+    ];
+    this.identifierSources = [
+      {
+        uuid: '691eed12-c0f1-11e2-94be-8c13d3f6d2d2',
+        display: 'Generator for OpenMRS ID',
+        name: 'Generator for OpenMRS ID',
+        identifierType: ref(openmrsId),
+      },
+    ];
+    this.personAttributeTypes = [
+      {
+        uuid: '14d4f066-15f5-102d-96e4-000c29c2a5d7',
+        display: 'Telephone Number',
+        name: 'Telephone Number',
+        description: "The telephone number for the person's home",
+        format: 'java.lang.String',
+        searchable: false,
+        retired: false,
+      },
+    ];
+    this.visitTypes = [
+      {
+        uuid: '7b0f5697-27e3-40c4-8bae-f4049abfb4ed',
+        display: 'Facility Visit',
+        name: 'Facility Visit',
+        description: 'Patient visits the clinic/hospital',
+        retired: false,
+      },
+    ];
+    this.encounterTypes = [
+      {
+        uuid: '67a71486-1a54-468f-ac3e-7091a9a79584',
+        display: 'Vitals',
+        name: 'Vitals',
+        description: 'For capturing vital signs',
+        retired: false,
+      },
+    ];
+    this.relationshipTypes = [
+      ['8d919b58-c2cc-11de-8d13-0010c6dffd0f', 'Doctor', 'Patient'],
+      ['8d91a01c-c2cc-11de-8d13-0010c6dffd0f', 'Sibling', 'Sibling'],
+      ['8d91a210-c2cc-11de-8d13-0010c6dffd0f', 'Parent', 'Child'],
+      ['8d91a3dc-c2cc-11de-8d13-0010c6dffd0f', 'Aunt/Uncle', 'Niece/Nephew'],
+      ['2a5f4ff4-a179-4b8a-aa4c-40f71956ebbc', 'Supervisor', 'Supervisee'],
+    ].map(([uuid, aIsToB, bIsToA]) => ({
+      uuid,
+      display: `${aIsToB}/${bIsToA}`,
+      aIsToB,
+      bIsToA,
+      retired: false,
+    }));
+    const privilege = (name: string) => ({ uuid: randomUUID(), display: name });
+    const findPatient = privilege('App: coreapps.findPatient');
+    const registerPatient = privilege('App: registrationapp.registerPatient');
+    const activeVisits = privilege('App: coreapps.activeVisits');
+    const systemAdministration = privilege('App: coreapps.systemAdministration');
+    this.roles = (
+      [
+        ['f7fd42ef-880e-40c5-972d-e4ae7c990de2', 'Authenticated', []],
+        ['8d94f280-c2cc-11de-8d13-0010c6dffd0f', 'Provider', []],
+        ['8d94f852-c2cc-11de-8d13-0010c6dffd0f', 'System Developer', [systemAdministration]],
+        [
+          'a2ad1b8a-5c2c-4e6a-9d6e-52a0a9e1a011',
+          'Organizational: Registration Clerk',
+          [findPatient, registerPatient],
+        ],
+        [
+          'b5e5f1e2-7c3d-4f2b-8b0f-3c1d6e9a2f02',
+          'Organizational: Nurse',
+          [findPatient, activeVisits],
+        ],
+        [
+          'c8f0a3d4-9e1b-4a5c-b7d2-4e6f8a0b3c03',
+          'Organizational: Doctor',
+          [findPatient, activeVisits],
+        ],
+      ] as Array<[string, string, OpenmrsRef[]]>
+    ).map(([uuid, name, privileges]) => ({
+      uuid,
+      display: name,
+      name,
+      description: null,
+      privileges,
+      inheritedRoles: [],
+    }));
+    const answers = [
+      ['1065', 'Yes'],
+      ['1066', 'No'],
+      ['1067', 'Unknown'],
+    ].map(([code, name]) => concept(code, name, { conceptClass: 'Misc' }));
+    this.concepts = [
+      ...[
+        ['5085', 'Systolic blood pressure'],
+        ['5086', 'Diastolic blood pressure'],
+        ['5087', 'Pulse'],
+        ['5088', 'Temperature (c)'],
+        ['5089', 'Weight (kg)'],
+        ['5090', 'Height (cm)'],
+      ].map(([code, name]) => concept(code, name)),
+      ...[
+        ['5622', 'Other non-coded', 'Misc'],
+        ['81724', 'Penicillin', 'Drug'],
+        ['117399', 'Hypertension', 'Diagnosis'],
+        ['119481', 'Diabetes mellitus', 'Diagnosis'],
+        ['121375', 'Asthma', 'Diagnosis'],
+      ].map(([code, name, conceptClass]) => concept(code, name, { conceptClass })),
+      ...answers,
+      concept('5272', 'Currently pregnant', { conceptClass: 'Question', answers }),
+    ];
+    this.systemSettings = [
+      systemSetting('default_locale', 'en_GB', 'Locale used when no other one is chosen'),
+      systemSetting('locale.allowed.list', 'en, en_GB, es, fr, it, pt', 'Locales users can pick'),
+      systemSetting('registrationcore.identifierSourceId', '1', 'idgen source for new patients'),
+    ];
+  }
+}
+
+/**
+ * A patient as the FHIR module renders it
+ */
+function fhirPatient(patient: PatientFull): FhirPatient {
+  const genders: Record<string, AdministrativeGender> = {
+    M: 'male',
+    F: 'female',
+    O: 'other',
+    U: 'unknown',
+  };
+  const { person } = patient;
+  return {
+    resourceType: 'Patient',
+    id: patient.uuid,
+    active: !patient.voided,
+    identifier: patient.identifiers
+      .filter(identifier => !identifier.voided)
+      .map(identifier => ({
+        id: identifier.uuid,
+        use: identifier.preferred ? 'official' : 'usual',
+        type: {
+          coding: [{ code: identifier.identifierType.uuid }],
+          text: identifier.identifierType.display,
+        },
+        value: identifier.identifier,
+      })),
+    name: person.names
+      .filter(name => !name.voided)
+      .map(name => ({
+        id: name.uuid,
+        text: name.display,
+        family: name.familyName,
+        given: [name.givenName, ...(name.middleName ? [name.middleName] : [])],
+      })),
+    ...(genders[person.gender] ? { gender: genders[person.gender] } : {}),
+    ...(person.birthdate ? { birthDate: person.birthdate.slice(0, 10) } : {}),
+  };
+}
+
+/**
+ * An error as the FHIR module reports it
+ */
+function operationOutcome(error: MockRestError): OperationOutcome {
+  const details = Object.entries(error.fieldErrors || {}).flatMap(([field, errors]) =>
+    errors.map(fieldError => `${field}: ${fieldError.message}`)
+  );
+  return {
+    resourceType: 'OperationOutcome',
+    issue: [
+      {
+        severity: error.status < 400 ? 'information' : 'error',
+        code: error.code,
+        diagnostics: [error.message, ...details].join('; '),
+      },
+    ],
+  };
+}
+
+function systemSetting(
+  property: string,
+  value: string | null,
+  description: string | null
+): SystemSetting {
+  return {
+    uuid: randomUUID(),
+    display: `${property} = ${value ?? ''}`,
+    property,
+    value,
+    description,
+    datatypeClassname: null,
+  };
+}
+
+/**
+ * A user as the REST module renders it, without its password
+ */
+function userPayload({ password: _password, ...user }: MockUserAccount): User {
+  return user;
+}
+
+/**
+ * How a request authenticated, for `credentials`
+ */
+function credentialsOf(req: IncomingMessage): string {
+  const scheme = /^(\w+) /.exec(req.headers.authorization || '')?.[1];
+  if (scheme) {
+    return scheme.toLowerCase();
+  }
+  return sessionCookie(req) ? 'session' : 'none';
+}
+
+function ref(resource: OpenmrsRef): OpenmrsRef {
+  return { uuid: resource.uuid, display: resource.display };
+}
+
+function list<T>(results: T[]): { results: T[] } {
+  return { results };
+}
+
+function location(uuid: string, name: string, tags: OpenmrsRef[]): LocationFull {
+  return {
+    uuid,
+    display: name,
+    name,
+    description: null,
+    address1: null,
+    cityVillage: null,
+    stateProvince: null,
+    country: null,
+    postalCode: null,
+    tags,
+    parentLocation: null,
+    childLocations: [],
+    retired: false,
+    attributes: [],
+    auditInfo: auditInfo(),
+  };
+}
+
+const CONCEPT_CLASS_UUIDS: Record<string, string> = {
+  Test: '8d492954-c2cc-11de-8d13-0010c6dffd0f',
+  Diagnosis: '8d4918b0-c2cc-11de-8d13-0010c6dffd0f',
+  Drug: '8d490dfc-c2cc-11de-8d13-0010c6dffd0f',
+  Misc: '8d492774-c2cc-11de-8d13-0010c6dffd0f',
+  Question: '8d491e50-c2cc-11de-8d13-0010c6dffd0f',
+};
+
+/**
+ * A CIEL concept, with the CIEL-style UUID (the code padded with A's).
+ * Numeric test results unless a concept class is given; coded when it has
+ * answers, otherwise without a datatype (N/A), like diagnoses and drugs.
+ */
+function concept(
+  cielCode: string,
+  name: string,
+  options: { conceptClass?: string; answers?: OpenmrsRef[] } = {}
+): Concept & { mappingCodes: string[] } {
+  const conceptClass = options.conceptClass || 'Test';
+  let datatype = { uuid: '8d4a4488-c2cc-11de-8d13-0010c6dffd0f', display: 'Numeric' };
+  if (options.answers) {
+    datatype = { uuid: '8d4a48b6-c2cc-11de-8d13-0010c6dffd0f', display: 'Coded' };
+  } else if (options.conceptClass) {
+    datatype = { uuid: '8d4a4b64-c2cc-11de-8d13-0010c6dffd0f', display: 'N/A' };
+  }
+
+  return {
+    uuid: `${cielCode}${'A'.repeat(36 - cielCode.length)}`,
+    display: name,
+    name: {
+      uuid: randomUUID(),
+      display: name,
+      name,
+      locale: 'en',
+      localePreferred: true,
+      conceptNameType: 'FULLY_SPECIFIED',
+    },
+    datatype,
+    conceptClass: {
+      uuid: CONCEPT_CLASS_UUIDS[conceptClass] || randomUUID(),
+      display: conceptClass,
+    },
+    set: false,
+    answers: (options.answers || []).map(ref),
+    setMembers: [],
+    mappings: [{ uuid: randomUUID(), display: `CIEL: ${cielCode}` }],
+    retired: false,
+    mappingCodes: [`CIEL:${cielCode}`],
+  };
+}
+
+function auditInfo(): LocationFull['auditInfo'] {
+  return {
+    creator: { uuid: 'admin-user-uuid', display: 'admin' },
+    dateCreated: now(),
+    changedBy: null,
+    dateChanged: null,
+  };
+}
+
+function now(): string {
+  return new Date().toISOString().replace('Z', '+0000');
+}
+
+function ageFrom(birthdate: string): number {
+  const born = new Date(birthdate);
+  const today = new Date();
+  const hadBirthday =
+    today.getMonth() > born.getMonth() ||
+    (today.getMonth() === born.getMonth() && today.getDate() >= born.getDate());
+  return today.getFullYear() - born.getFullYear() - (hadBirthday ? 0 : 1);
+}
+
+function stringOrNull(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+function sessionCookie(req: IncomingMessage): string | undefined {
+  const match = /(?:^|;\s*)JSESSIONID=([^;]+)/.exec(req.headers.cookie || '');
+  return match?.[1];
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    req.on('error', reject);
+  });
+}
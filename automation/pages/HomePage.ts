@@ -7,6 +7,7 @@ export class HomePage {
   readonly registerPatientLink: Locator;
   readonly registerPatientLinkSimple: Locator;
   readonly activeVisitsLink: Locator;
+  readonly systemAdministrationLink: Locator;
   readonly userProfileDropdown: Locator;
   readonly logoutLink: Locator;
   readonly welcomeMessage: Locator;
@@ -26,6 +27,9 @@ export class HomePage {
       '#registrationapp-basicRegisterPatient-homepageLink-registrationapp-basicRegisterPatient-homepageLink-extension'
     );
     this.activeVisitsLink = page.locator('a:has-text("Active Visits"), text="Active Visits"');
+    this.systemAdministrationLink = page.locator(
+      '#coreapps-systemadministration-homepageLink-coreapps-systemadministration-homepageLink-extension'
+    );
 
     this.loginUserInfo = page.locator('h4');
 
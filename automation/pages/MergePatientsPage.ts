@@ -0,0 +1,135 @@
+import { Page, Locator, expect } from '@playwright/test';
+
+export type MergeRecordPosition = 'first' | 'second';
+
+/**
+ * Merge Patients admin page (System Administration > Merge Patient Electronic
+ * Records). Step one picks two patients by identifier or name; step two shows
+ * their records side by side, and the record clicked there is kept.
+ */
+export class MergePatientsPage {
+  readonly page: Page;
+  readonly pageTitle: Locator;
+  readonly firstPatientInput: Locator;
+  readonly secondPatientInput: Locator;
+  readonly searchResults: Locator;
+  readonly continueButton: Locator;
+  readonly firstRecord: Locator;
+  readonly secondRecord: Locator;
+  readonly confirmMergeButton: Locator;
+  readonly cancelButton: Locator;
+  readonly errorMessage: Locator;
+
+  constructor(page: Page) {
+    this.page = page;
+
+    this.pageTitle = page.locator('h3:has-text("Merge"), h2:has-text("Merge")');
+
+    // Step one: a patient search box for each record
+    this.firstPatientInput = page.locator('#patient1-text, input[name="patient1-text"]');
+    this.secondPatientInput = page.locator('#patient2-text, input[name="patient2-text"]');
+    this.searchResults = page.locator(
+      '.ui-autocomplete li, #patient1-search-results tr, #patient2-search-results tr'
+    );
+    this.continueButton = page.locator('#confirm-button, input.confirm[value="Continue"]');
+
+    // Step two: the two records side by side
+    this.firstRecord = page.locator('#first-patient, .patient-record').first();
+    this.secondRecord = page.locator('#second-patient, .patient-record').last();
+    this.confirmMergeButton = page.locator(
+      '#confirm-button, input.confirm[value*="Yes"], button:has-text("Yes, continue")'
+    );
+    this.cancelButton = page.locator('#cancel-button, input.cancel, button:has-text("No")');
+
+    this.errorMessage = page.locator('.error, .toast-item-wrapper .toast-type-error');
+  }
+
+  /**
+   * Navigate to the Merge Patients page
+   */
+  async goto(): Promise<void> {
+    await this.page.goto(
+      '/openmrs/coreapps/datamanagement/mergePatients.page?app=coreapps.mergePatients'
+    );
+    await this.waitForPageLoad();
+  }
+
+  /**
+   * Wait for the patient selection step to load
+   */
+  async waitForPageLoad(): Promise<void> {
+    await this.page.waitForLoadState('domcontentloaded');
+    await expect(this.firstPatientInput).toBeVisible();
+  }
+
+  /**
+   * Pick the two records to merge (identifiers or names) and continue to
+   * the comparison step
+   */
+  async selectPatients(firstPatient: string, secondPatient: string): Promise<void> {
+    await this.choosePatient(this.firstPatientInput, firstPatient);
+    await this.choosePatient(this.secondPatientInput, secondPatient);
+
+    await this.continueButton.click();
+    await expect(this.secondRecord).toBeVisible();
+  }
+
+  /**
+   * Text of one record in the comparison step, line by line
+   * (names, identifiers, addresses and so on)
+   */
+  async getRecordDetails(position: MergeRecordPosition): Promise<string[]> {
+    const text = await this.record(position).innerText();
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Keep the record at `position`; the other one is voided by the merge
+   */
+  async choosePreferred(position: MergeRecordPosition): Promise<void> {
+    await this.record(position).click();
+    await expect(this.record(position)).toHaveClass(/selected/);
+  }
+
+  /**
+   * Confirm the merge and wait for the surviving patient's dashboard
+   */
+  async confirmMerge(): Promise<void> {
+    await this.confirmMergeButton.click();
+    await this.page.waitForURL(/patient\.page\?patientId=/, { timeout: 30000 });
+  }
+
+  /**
+   * The whole flow: select both patients, keep `preferred` and merge
+   */
+  async mergePatients(
+    firstPatient: string,
+    secondPatient: string,
+    preferred: MergeRecordPosition = 'first'
+  ): Promise<void> {
+    await this.selectPatients(firstPatient, secondPatient);
+    await this.choosePreferred(preferred);
+    await this.confirmMerge();
+  }
+
+  async isErrorVisible(): Promise<boolean> {
+    return this.errorMessage.isVisible();
+  }
+
+  private record(position: MergeRecordPosition): Locator {
+    return position === 'first' ? this.firstRecord : this.secondRecord;
+  }
+
+  /**
+   * Type into a patient search box and pick the result matching the query
+   */
+  private async choosePatient(input: Locator, query: string): Promise<void> {
+    await input.fill(query);
+    const result = this.searchResults.filter({ hasText: query }).first();
+    await expect(result).toBeVisible({ timeout: 15000 });
+    await result.click();
+  }
+}
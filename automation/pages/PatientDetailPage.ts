@@ -69,6 +69,8 @@ export class PatientDetailPage {
   readonly familySection: Locator;
   readonly familyList: Locator;
   readonly relativesItems: Locator;
+  /** Relationship label inside a relative item (e.g. "Parent") */
+  readonly relationshipLabelSelector = '.relationship-type, .relationship-label, .tag';
 
   // General sections
   readonly diagnosesSection: Locator;
@@ -145,6 +147,14 @@ export class PatientDetailPage {
     this.deletePatientButton = page.locator('text="Delete Patient"');
   }
 
+  /**
+   * Open the clinician dashboard of a patient (e.g. one seeded through the API)
+   */
+  async goto(patientUuid: string): Promise<void> {
+    await this.page.goto(`/openmrs/coreapps/clinicianfacing/patient.page?patientId=${patientUuid}`);
+    await this.waitForPageLoad();
+  }
+
   /**
    * Wait for patient detail page to load
    */
@@ -404,18 +414,19 @@ export class PatientDetailPage {
         return [];
       }
 
-      // This would need to be customized based on actual HTML structure
       const relatives: PatientRelativeInfo[] = [];
       const relativeElements = await this.relativesItems.all();
 
       for (const element of relativeElements) {
-        const text = await element.textContent();
+        const text = (await element.textContent())?.replace(/\s+/g, ' ').trim();
         if (text && !text.toLowerCase().includes('none')) {
-          // Parse relative info - this would need adjustment based on actual format
-          relatives.push({
-            name: text.trim(),
-            relationship: 'Unknown', // Would extract from actual structure
-          });
+          // The label has its own element in the widget; read it from there when it does
+          const labelElement = element.locator(this.relationshipLabelSelector).first();
+          const label =
+            (await labelElement.count()) > 0
+              ? (await labelElement.textContent())?.replace(/\s+/g, ' ').trim()
+              : undefined;
+          relatives.push(this.parseRelative(text, label));
         }
       }
 
@@ -425,6 +436,36 @@ export class PatientDetailPage {
     }
   }
 
+  /**
+   * Split a relative's text into name and relationship label. With a known
+   * label the rest of the text is the name; otherwise the label is read from
+   * "Name (Label)", "Label: Name" or "Name - Label".
+   */
+  private parseRelative(text: string, label: string | undefined): PatientRelativeInfo {
+    if (label) {
+      const name = text
+        .replace(label, '')
+        .replace(/^[\s:()–-]+|[\s:()–-]+$/g, '')
+        .trim();
+      return { name, relationship: label };
+    }
+
+    const parenthesized = text.match(/^(.+?)\s*\(([^)]+)\)$/);
+    if (parenthesized) {
+      return { name: parenthesized[1].trim(), relationship: parenthesized[2].trim() };
+    }
+    const labelled = text.match(/^([^:]+):\s*(.+)$/);
+    if (labelled) {
+      return { name: labelled[2].trim(), relationship: labelled[1].trim() };
+    }
+    const dashed = text.match(/^(.+?)\s+[–-]\s+(.+)$/);
+    if (dashed) {
+      return { name: dashed[1].trim(), relationship: dashed[2].trim() };
+    }
+
+    return { name: text, relationship: 'Unknown' };
+  }
+
   /**
    * Verify patient was registered successfully by checking key elements
    * Only validates name, gender that are visible on patient detail page
@@ -781,23 +822,31 @@ export class PatientDetailPage {
         // Extract from dedicated vitals section
         const vitalsContent = await vitalsSection.locator('..').textContent();
         if (vitalsContent) {
-          // Parse vital signs from text content
-          const bpMatch = vitalsContent.match(/blood pressure[:\s]*([\d\/]+)/i);
+          // Parse vital signs from text content; labels may carry a unit,
+          // e.g. "Weight (kg) 70.0" or "Temperature (C): 36.6"
+          const unitLabel = '(?:\\s*\\([^)]*\\))?[:\\s]*';
+          const bpMatch = vitalsContent.match(
+            new RegExp(`blood pressure${unitLabel}([\\d/]+)`, 'i')
+          );
           if (bpMatch) vitals.bloodPressure = bpMatch[1];
 
-          const tempMatch = vitalsContent.match(/temperature[:\s]*([\d.]+\s*[°CF]*)/i);
-          if (tempMatch) vitals.temperature = tempMatch[1];
+          const tempMatch = vitalsContent.match(
+            new RegExp(`temperature${unitLabel}([\\d.]+\\s*[°CF]*)`, 'i')
+          );
+          if (tempMatch) vitals.temperature = tempMatch[1].trim();
 
-          const hrMatch = vitalsContent.match(/heart rate|pulse[:\s]*([\d]+)/i);
+          const hrMatch = vitalsContent.match(
+            new RegExp(`(?:heart rate|pulse)${unitLabel}(\\d+)`, 'i')
+          );
           if (hrMatch) vitals.heartRate = hrMatch[1];
 
-          const weightMatch = vitalsContent.match(/weight[:\s]*([\d.]+\s*\w*)/i);
+          const weightMatch = vitalsContent.match(new RegExp(`weight${unitLabel}([\\d.]+)`, 'i'));
           if (weightMatch) vitals.weight = weightMatch[1];
 
-          const heightMatch = vitalsContent.match(/height[:\s]*([\d.]+\s*\w*)/i);
+          const heightMatch = vitalsContent.match(new RegExp(`height${unitLabel}([\\d.]+)`, 'i'));
           if (heightMatch) vitals.height = heightMatch[1];
 
-          const bmiMatch = vitalsContent.match(/bmi[:\s]*([\d.]+)/i);
+          const bmiMatch = vitalsContent.match(new RegExp(`bmi${unitLabel}([\\d.]+)`, 'i'));
           if (bmiMatch) vitals.bmi = bmiMatch[1];
         }
       }
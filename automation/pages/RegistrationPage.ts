@@ -2,11 +2,14 @@ import { Page, Locator, expect } from '@playwright/test';
 
 export interface PatientData {
   givenName: string;
+  middleName?: string;
   familyName: string;
   gender: 'M' | 'F';
   birthdate: string;
   address1?: string;
   cityVillage?: string;
+  stateProvince?: string;
+  postalCode?: string;
   country?: string;
   phoneNumber?: string;
   relatives?: RelativeData[];
@@ -104,6 +107,13 @@ export class RegistrationPage {
     await this.givenNameField.fill(givenName);
   }
 
+  /**
+   * Fill patient's middle name
+   */
+  async fillMiddleName(middleName: string): Promise<void> {
+    await this.middleNameField.fill(middleName);
+  }
+
   /**
    * Fill patient's family name
    */
@@ -235,6 +245,9 @@ export class RegistrationPage {
    */
   async registerPatient(patientData: PatientData): Promise<void> {
     await this.fillGivenName(patientData.givenName);
+    if (patientData.middleName) {
+      await this.fillMiddleName(patientData.middleName);
+    }
     await this.fillFamilyName(patientData.familyName);
     await this.nextButton.click();
     await this.selectGender(patientData.gender);
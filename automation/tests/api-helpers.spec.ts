@@ -0,0 +1,932 @@
+import { existsSync } from 'fs';
+import type { APIRequestContext, PlaywrightWorkerArgs } from '@playwright/test';
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import {
+  ApiHelpers,
+  DataSeeder,
+  LOGIN_LOCATION_TAG,
+  SystemSettingOverrides,
+  VITALS_CONCEPTS,
+} from '../utils/api-helpers';
+import {
+  OpenmrsAuthError,
+  OpenmrsNotFoundError,
+  OpenmrsServerError,
+  OpenmrsValidationError,
+} from '../utils/api-errors';
+import {
+  BasicAuthStrategy,
+  BearerTokenStrategy,
+  SessionAuthStrategy,
+  createAuthStrategy,
+} from '../utils/auth-strategies';
+import type { ConceptServiceOptions } from '../utils/concept-service';
+import { FhirClient } from '../utils/fhir-client';
+import type { Session } from '../utils/openmrs-models';
+import type { RetryAttempt, RetryPolicy } from '../utils/retry-policy';
+import { generatePatientData } from '../utils/data-generator';
+import { aPatient } from '../utils/patient-builder';
+import { OpenmrsMockServer } from '../mock/openmrs-mock-server';
+
+/**
+ * API and data layer tests against the in-process mock server, so they run
+ * without an OpenMRS instance (and without a browser)
+ */
+test.describe('API helpers (mock server)', () => {
+  const server = new OpenmrsMockServer({ defaultLimit: 2 });
+  let baseURL: string;
+
+  test.beforeAll(async () => {
+    baseURL = await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+  });
+
+  // The mock listens on a new port every run, so a concept cache file would never be read again
+  const newApiHelpers = (
+    request: APIRequestContext,
+    concepts: ConceptServiceOptions = { persist: false }
+  ) => new ApiHelpers(request, baseURL, { concepts });
+
+  // Quick retries, each one recorded in `retries`
+  const retryingApiHelpers = (
+    request: APIRequestContext,
+    retries: RetryAttempt[],
+    retryPolicy: Partial<RetryPolicy> = {}
+  ) =>
+    new ApiHelpers(request, baseURL, {
+      concepts: { persist: false },
+      retryPolicy: {
+        maxRetries: 2,
+        initialDelayMs: 10,
+        backoffFactor: 3,
+        onRetry: retry => retries.push(retry),
+        ...retryPolicy,
+      },
+    });
+
+  const loggedIn = async (apiHelpers: ApiHelpers, location?: string) => {
+    await apiHelpers.authenticate('admin', 'Admin123', location);
+    return apiHelpers;
+  };
+
+  // Log in from a request context of its own, so no earlier session cookie
+  // counts, and return the UUID of the session's user
+  const logInAs = async (
+    playwright: PlaywrightWorkerArgs['playwright'],
+    username: string,
+    password: string
+  ) => {
+    const apiContext = await playwright.request.newContext();
+    try {
+      const apiHelpers = newApiHelpers(apiContext);
+      await apiHelpers.authenticate(username, password);
+      const session = (await apiHelpers.getRaw('session')) as Session;
+      return session.user?.uuid;
+    } finally {
+      await apiContext.dispose();
+    }
+  };
+
+  test(`${testConfig.tags.API} should log in and carry the session location`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+
+    expect((await apiHelpers.getSessionLocation())?.display).toBe('Registration Desk');
+
+    const state = await apiHelpers.getStorageState();
+    expect(state.cookies.find(cookie => cookie.name === 'JSESSIONID')?.path).toBe('/openmrs');
+  });
+
+  test(`${testConfig.tags.API} should reject a wrong password`, async ({ request }) => {
+    const apiHelpers = newApiHelpers(request);
+
+    await expect(apiHelpers.authenticate('admin', 'wrong')).rejects.toBeInstanceOf(
+      OpenmrsAuthError
+    );
+  });
+
+  test(`${testConfig.tags.API} should list login locations by tag`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+
+    const loginLocations = await apiHelpers.getLocations({ tag: LOGIN_LOCATION_TAG });
+    expect(loginLocations.map(location => location.name)).toContain('Inpatient Ward');
+    expect(loginLocations.map(location => location.name)).not.toContain('Amani Hospital');
+
+    const retired = await apiHelpers.getLocations({ includeRetired: true });
+    expect(retired.some(location => location.retired)).toBe(true);
+  });
+
+  test(`${testConfig.tags.API} should create, find and read a patient`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patientData = generatePatientData();
+
+    const created = await apiHelpers.createTestPatient(patientData);
+    expect(created.id).toMatch(/^10\d{4}M$/);
+
+    const [found] = await apiHelpers.searchPatients(created.id, { matchOn: 'identifier' });
+    expect(found?.uuid).toBe(created.uuid);
+
+    const patient = await apiHelpers.getPatient(created.uuid);
+    expect(patient.person.preferredName.familyName).toBe(patientData.familyName);
+    expect(patient.person.gender).toBe(patientData.gender);
+    expect(patient.identifiers[0]?.location?.display).toBe('Registration Desk');
+  });
+
+  test(`${testConfig.tags.API} should keep locale-specific patient data intact`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patientData = generatePatientData({ locale: 'ar' });
+    expect(patientData.country).toBe('Egypt');
+    expect(patientData.phoneNumber).toMatch(/^\+?\d+(-\d+)*$/);
+
+    const created = await apiHelpers.createTestPatient(patientData);
+    const patient = await apiHelpers.getPatient(created.uuid);
+
+    expect(patient.person.preferredName.givenName).toBe(patientData.givenName);
+    expect(patient.person.preferredName.familyName).toBe(patientData.familyName);
+    expect(patient.person.preferredAddress?.cityVillage).toBe(patientData.cityVillage);
+    expect(patient.person.preferredAddress?.country).toBe('Egypt');
+  });
+
+  test(`${testConfig.tags.API} should create a patient described with the builder`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const builder = aPatient()
+      .female()
+      .aged(34)
+      .withRelatives(2)
+      .withoutAddress()
+      .withPhone('555-0134');
+
+    const patientData = builder.build();
+    expect(patientData.gender).toBe('F');
+    expect(patientData.relatives).toHaveLength(2);
+    expect(patientData.cityVillage).toBeUndefined();
+    expect(patientData.phoneNumber).toBe('555-0134');
+
+    const created = await apiHelpers.createTestPatient(builder.buildApiPayload());
+    const patient = await apiHelpers.getPatient(created.uuid);
+    expect(patient.person.age).toBe(34);
+    expect(patient.person.gender).toBe('F');
+    expect(patient.person.addresses).toHaveLength(0);
+    expect(patient.person.attributes.map(attribute => attribute.value)).toEqual(['555-0134']);
+  });
+
+  test(`${testConfig.tags.API} should look up identifier types, sources and location once`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+    await apiHelpers.createTestPatient(aPatient().buildApiPayload());
+
+    const firstRequest = server.requests.length;
+    const patient = await apiHelpers.createTestPatient(aPatient().buildApiPayload());
+
+    expect(server.requests.slice(firstRequest)).toEqual([
+      'POST idgen/identifiersource/691eed12-c0f1-11e2-94be-8c13d3f6d2d2/identifier',
+      'POST patient',
+      `GET patient/${patient.uuid}/identifier`,
+    ]);
+  });
+
+  test(`${testConfig.tags.API} should page through search results`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const seeder = new DataSeeder(apiHelpers);
+    for (let i = 0; i < 5; i++) {
+      await seeder.seedPatient(aPatient().withFamilyName('Pagination').buildApiPayload());
+    }
+
+    const firstPage = await apiHelpers.searchPatientsPage('Pagination');
+    expect(firstPage.results).toHaveLength(2);
+    expect(firstPage.nextStartIndex).toBe(2);
+
+    expect(await apiHelpers.searchAllPatients('Pagination')).toHaveLength(5);
+  });
+
+  test(`${testConfig.tags.API} should report field errors for an invalid patient`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const error = await apiHelpers
+      .createTestPatient(aPatient().bornOn(tomorrow).buildApiPayload())
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(OpenmrsValidationError);
+    expect((error as OpenmrsValidationError).fieldErrors.map(e => e.field)).toContain(
+      'person.birthdate'
+    );
+  });
+
+  test(`${testConfig.tags.API} should purge the patients of a partly failed batch`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const report = await apiHelpers.createMultipleTestPatients(
+      [
+        aPatient().withFamilyName('Batch').buildApiPayload(),
+        aPatient().withFamilyName('Batch').bornOn(tomorrow).buildApiPayload(),
+        aPatient().withFamilyName('Batch').buildApiPayload(),
+      ],
+      { concurrency: 2, rollbackOnFailure: true }
+    );
+
+    expect(report.succeeded.map(({ index }) => index)).toEqual([0, 2]);
+    expect(report.failed.map(({ index }) => index)).toEqual([1]);
+    expect(report.rolledBack).toBe(true);
+    expect(report.rollbackFailures).toEqual([]);
+    for (const { result } of report.succeeded) {
+      expect(
+        await apiHelpers.searchPatients(result.id, { matchOn: 'identifier', includeVoided: true })
+      ).toHaveLength(0);
+    }
+  });
+
+  test(`${testConfig.tags.API} should end a visit so it is no longer active`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const seeder = new DataSeeder(apiHelpers);
+    const patient = await seeder.seedPatient();
+    const visit = await seeder.seedActiveVisit(patient.uuid);
+    expect((await apiHelpers.getActiveVisits(patient.uuid)).map(v => v.uuid)).toEqual([visit.uuid]);
+
+    const ended = await apiHelpers.endVisit(visit.uuid);
+    expect(ended.stopDatetime).toBeTruthy();
+    expect(await apiHelpers.getActiveVisits(patient.uuid)).toEqual([]);
+    expect((await apiHelpers.getActiveVisits()).map(v => v.uuid)).not.toContain(visit.uuid);
+  });
+
+  test(`${testConfig.tags.API} should record vitals as obs of the CIEL vitals concepts`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const seeder = new DataSeeder(apiHelpers);
+    const patient = await seeder.seedPatient();
+    const visit = await seeder.seedActiveVisit(patient.uuid);
+
+    const created = await seeder.seedVitals(
+      patient.uuid,
+      {
+        bloodPressure: { systolic: 120, diastolic: 80 },
+        temperature: 36.6,
+        heartRate: 72,
+        weight: 70,
+        height: 175,
+      },
+      { visitUuid: visit.uuid }
+    );
+
+    const encounter = await apiHelpers.getEncounter(created.uuid);
+    expect(encounter.encounterType.display).toBe('Vitals');
+    expect(encounter.visit?.uuid).toBe(visit.uuid);
+    expect(Object.fromEntries(encounter.obs.map(ob => [ob.concept.uuid, ob.value]))).toEqual({
+      [VITALS_CONCEPTS.SYSTOLIC_BLOOD_PRESSURE]: 120,
+      [VITALS_CONCEPTS.DIASTOLIC_BLOOD_PRESSURE]: 80,
+      [VITALS_CONCEPTS.TEMPERATURE]: 36.6,
+      [VITALS_CONCEPTS.PULSE]: 72,
+      [VITALS_CONCEPTS.WEIGHT]: 70,
+      [VITALS_CONCEPTS.HEIGHT]: 175,
+    });
+  });
+
+  test(`${testConfig.tags.API} should resolve concepts by name, mapping and answer`, async ({
+    request,
+  }, testInfo) => {
+    const cacheDir = testInfo.outputPath('concepts');
+    const { concepts } = await loggedIn(newApiHelpers(request, { cacheDir }));
+
+    const weight = await concepts.findByName('weight (KG)');
+    expect(weight).toEqual({ uuid: VITALS_CONCEPTS.WEIGHT, display: 'Weight (kg)' });
+    expect(await concepts.resolve('CIEL:5089')).toEqual(weight);
+    expect(await concepts.findByName('Weight')).toBeUndefined();
+    await expect(concepts.resolve('CIEL:99999')).rejects.toThrow('Concept not found: CIEL:99999');
+
+    const answers = await concepts.getAnswers('CIEL:5272');
+    expect(answers.map(answer => answer.display)).toEqual(['Yes', 'No', 'Unknown']);
+    expect(await concepts.resolveAnswer('Currently pregnant', 'no')).toEqual(answers[1]);
+  });
+
+  test(`${testConfig.tags.API} should reuse the concept cache file of the server`, async ({
+    request,
+  }, testInfo) => {
+    const cacheDir = testInfo.outputPath('concepts');
+    const apiHelpers = await loggedIn(newApiHelpers(request, { cacheDir }));
+    await apiHelpers.resolveConceptUuid('Weight (kg)');
+    await apiHelpers.concepts.getAnswers('CIEL:5272');
+
+    // Not logged in, so any request would fail
+    const firstRequest = server.requests.length;
+    const nextRun = newApiHelpers(request, { cacheDir });
+    expect(await nextRun.resolveConceptUuid('Weight (kg)')).toBe(VITALS_CONCEPTS.WEIGHT);
+    expect(await nextRun.concepts.getAnswers('CIEL:5272')).toHaveLength(3);
+    expect(server.requests.slice(firstRequest)).toEqual([]);
+
+    const memoryOnlyDir = testInfo.outputPath('memory-only');
+    const memoryOnly = await loggedIn(
+      newApiHelpers(request, { cacheDir: memoryOnlyDir, persist: false })
+    );
+    await memoryOnly.resolveConceptUuid('Weight (kg)');
+    expect(existsSync(memoryOnlyDir)).toBe(false);
+  });
+
+  test(`${testConfig.tags.API} should remember concepts that were not found`, async ({
+    request,
+  }, testInfo) => {
+    const cacheDir = testInfo.outputPath('concepts');
+    const { concepts } = await loggedIn(newApiHelpers(request, { cacheDir }));
+    expect(await concepts.findByName('Blood sugar')).toBeUndefined();
+    expect(await concepts.findByMapping('CIEL:99999')).toBeUndefined();
+    expect(await concepts.findByName('blood SUGAR')).toBeUndefined();
+    expect(await concepts.findByMapping('CIEL', '99999')).toBeUndefined();
+    expect(server.requests.filter(line => line === 'GET concept')).toHaveLength(2);
+
+    // Not logged in, so any request would fail
+    const firstRequest = server.requests.length;
+    const nextRun = newApiHelpers(request, { cacheDir });
+    expect(await nextRun.concepts.findByName('Blood sugar')).toBeUndefined();
+    expect(server.requests.slice(firstRequest)).toEqual([]);
+  });
+
+  test(`${testConfig.tags.API} should record coded and free-text allergies`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patient = await new DataSeeder(apiHelpers).seedPatient();
+
+    const penicillin = await apiHelpers.addAllergy(patient.uuid, {
+      allergen: 'Penicillin',
+      allergenType: 'DRUG',
+    });
+    const nuts = await apiHelpers.addAllergy(patient.uuid, {
+      allergen: 'Nuts',
+      allergenType: 'FOOD',
+    });
+
+    expect(penicillin.allergen.codedAllergen.display).toBe('Penicillin');
+    expect(penicillin.allergen.nonCodedAllergen).toBeUndefined();
+    expect(nuts.allergen.codedAllergen.display).toBe('Other non-coded');
+    expect(nuts.allergen.nonCodedAllergen).toBe('Nuts');
+    expect((await apiHelpers.getAllergies(patient.uuid)).map(a => a.uuid)).toEqual([
+      penicillin.uuid,
+      nuts.uuid,
+    ]);
+
+    await apiHelpers.removeAllergy(patient.uuid, nuts.uuid);
+    expect((await apiHelpers.getAllergies(patient.uuid)).map(a => a.uuid)).toEqual([
+      penicillin.uuid,
+    ]);
+  });
+
+  test(`${testConfig.tags.API} should record coded and free-text conditions`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patient = await new DataSeeder(apiHelpers).seedPatient();
+
+    const hypertension = await apiHelpers.addCondition(patient.uuid, {
+      condition: 'Hypertension',
+    });
+    const diabetes = await apiHelpers.addCondition(patient.uuid, {
+      condition: 'Diabetes',
+      clinicalStatus: 'HISTORY_OF',
+    });
+
+    expect(hypertension.condition.coded?.display).toBe('Hypertension');
+    expect(hypertension.clinicalStatus).toBe('ACTIVE');
+    expect(diabetes.condition).toEqual({ coded: null, nonCoded: 'Diabetes' });
+    expect(diabetes.clinicalStatus).toBe('HISTORY_OF');
+
+    await apiHelpers.removeCondition(diabetes.uuid);
+    expect((await apiHelpers.getConditions(patient.uuid)).map(c => c.uuid)).toEqual([
+      hypertension.uuid,
+    ]);
+  });
+
+  test(`${testConfig.tags.API} should seed medical data and remove it on cleanup`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patient = await new DataSeeder(apiHelpers).seedPatient();
+    const seeder = new DataSeeder(apiHelpers);
+
+    const { allergies, conditions } = await seeder.seedMedicalData(patient.uuid, {
+      allergies: ['Penicillin', 'Latex', 'None'],
+      conditions: ['Hypertension', 'None'],
+    });
+
+    expect(allergies.map(allergy => allergy.allergen.allergenType)).toEqual([
+      'DRUG',
+      'ENVIRONMENT',
+    ]);
+    expect(conditions.map(condition => condition.display)).toEqual(['Hypertension']);
+    expect(await apiHelpers.getAllergies(patient.uuid)).toHaveLength(2);
+    expect(await apiHelpers.getConditions(patient.uuid)).toHaveLength(1);
+
+    await seeder.cleanup();
+
+    expect(await apiHelpers.getAllergies(patient.uuid)).toHaveLength(0);
+    expect(await apiHelpers.getConditions(patient.uuid)).toHaveLength(0);
+  });
+
+  test(`${testConfig.tags.API} should find relationship types by either label`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+
+    const parent = await apiHelpers.findRelationshipType('parent');
+    const child = await apiHelpers.findRelationshipType('Child');
+
+    expect(parent?.relationshipType.display).toBe('Parent/Child');
+    expect(parent?.relativeIs).toBe('A');
+    expect(child?.relationshipType.uuid).toBe(parent?.relationshipType.uuid);
+    expect(child?.relativeIs).toBe('B');
+    expect(await apiHelpers.findRelationshipType('Cousin')).toBeUndefined();
+  });
+
+  test(`${testConfig.tags.API} should relate two persons`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patient = await new DataSeeder(apiHelpers).seedPatient();
+    const sibling = await apiHelpers.createPerson({
+      givenName: 'Ada',
+      familyName: 'Lovelace',
+      gender: 'F',
+    });
+    const [siblingType] = (await apiHelpers.getRelationshipTypes()).filter(
+      type => type.aIsToB === 'Sibling'
+    );
+
+    const relationship = await apiHelpers.createRelationship({
+      personA: sibling.uuid,
+      personB: patient.uuid,
+      relationshipType: siblingType.uuid,
+    });
+
+    expect(relationship.personA.uuid).toBe(sibling.uuid);
+    expect(relationship.personB.uuid).toBe(patient.uuid);
+    expect(relationship.relationshipType.uuid).toBe(siblingType.uuid);
+    for (const personUuid of [patient.uuid, sibling.uuid]) {
+      expect((await apiHelpers.getRelationships(personUuid)).map(r => r.uuid)).toEqual([
+        relationship.uuid,
+      ]);
+    }
+
+    await apiHelpers.deleteRelationship(relationship.uuid);
+    expect(await apiHelpers.getRelationships(patient.uuid)).toHaveLength(0);
+  });
+
+  test(`${testConfig.tags.API} should seed relatives on the side their label names`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const patient = await new DataSeeder(apiHelpers).seedPatient();
+    const seeder = new DataSeeder(apiHelpers);
+
+    const [parent, child] = await seeder.seedRelatives(patient.uuid, [
+      { relationshipType: 'Parent', personName: 'Ada Lovelace' },
+      { relationshipType: 'Child', personName: 'Byron King' },
+    ]);
+
+    expect(parent.person.display).toBe('Ada Lovelace');
+    expect(parent.relationship.personA.uuid).toBe(parent.person.uuid);
+    expect(parent.relationship.personB.uuid).toBe(patient.uuid);
+    expect(child.relationship.personA.uuid).toBe(patient.uuid);
+    expect(child.relationship.personB.uuid).toBe(child.person.uuid);
+    expect(await apiHelpers.getRelationships(patient.uuid)).toHaveLength(2);
+
+    await expect(
+      seeder.seedRelatives(patient.uuid, [{ relationshipType: 'Cousin', personName: 'Jo Doe' }])
+    ).rejects.toThrow('Relationship type not found: Cousin');
+
+    await seeder.cleanup();
+    expect(await apiHelpers.getRelationships(patient.uuid)).toHaveLength(0);
+  });
+
+  test(`${testConfig.tags.API} should create a user with roles that can log in`, async ({
+    request,
+    playwright,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+
+    const user = await apiHelpers.createUser({
+      username: 'clerk.one',
+      password: 'Clerk1234',
+      person: { givenName: 'Clara', familyName: 'Clerk', gender: 'F' },
+      roles: ['organizational: registration clerk'],
+    });
+
+    expect(user.person.display).toBe('Clara Clerk');
+    expect(user.roles.map(role => role.display)).toEqual(['Organizational: Registration Clerk']);
+    expect(user.privileges.map(privilege => privilege.display)).toContain(
+      'App: registrationapp.registerPatient'
+    );
+    expect((await apiHelpers.getUser(user.uuid)).username).toBe('clerk.one');
+
+    expect(await logInAs(playwright, 'clerk.one', 'Clerk1234')).toBe(user.uuid);
+  });
+
+  test(`${testConfig.tags.API} should add roles to a user and keep the ones it has`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+    const user = await apiHelpers.createUser({
+      username: 'nurse.one',
+      password: 'Nurse1234',
+      person: { givenName: 'Nora', familyName: 'Nurse', gender: 'F' },
+      roles: ['Organizational: Nurse'],
+    });
+    const [provider] = (await apiHelpers.getRoles()).filter(role => role.name === 'Provider');
+
+    const updated = await apiHelpers.assignRoles(user.uuid, [
+      provider.uuid,
+      'Organizational: Nurse',
+    ]);
+
+    expect(updated.roles.map(role => role.display)).toEqual(['Organizational: Nurse', 'Provider']);
+    await expect(apiHelpers.assignRoles(user.uuid, ['Astronaut'])).rejects.toThrow(
+      'Role not found: Astronaut'
+    );
+  });
+
+  test(`${testConfig.tags.API} should retire or purge users and providers`, async ({
+    request,
+    playwright,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+    const person = await apiHelpers.createPerson({
+      givenName: 'Rita',
+      familyName: 'Retired',
+      gender: 'F',
+    });
+    const user = await apiHelpers.createUser({
+      username: 'rita',
+      password: 'Retire1234',
+      person: person.uuid,
+    });
+    const provider = await apiHelpers.createProvider({ personUuid: person.uuid });
+    expect(provider.person?.uuid).toBe(person.uuid);
+
+    await apiHelpers.retireUser(user.uuid);
+    await apiHelpers.retireProvider(provider.uuid);
+
+    expect((await apiHelpers.getUser(user.uuid)).retired).toBe(true);
+    expect(await apiHelpers.getRaw(`provider/${provider.uuid}`)).toMatchObject({ retired: true });
+    await expect(logInAs(playwright, 'rita', 'Retire1234')).rejects.toBeInstanceOf(
+      OpenmrsAuthError
+    );
+
+    await apiHelpers.retireUser(user.uuid, { purge: true });
+    await apiHelpers.retireProvider(provider.uuid, { purge: true });
+
+    await expect(apiHelpers.getUser(user.uuid)).rejects.toBeInstanceOf(OpenmrsNotFoundError);
+    await expect(apiHelpers.getRaw(`provider/${provider.uuid}`)).rejects.toBeInstanceOf(
+      OpenmrsNotFoundError
+    );
+  });
+
+  test(`${testConfig.tags.API} should provision a user and retire it, its provider and person on cleanup`, async ({
+    request,
+    playwright,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+    const seeder = new DataSeeder(apiHelpers);
+
+    const provisioned = await seeder.seedUser(['Organizational: Nurse']);
+    const { user, provider } = provisioned;
+    expect(user.roles.map(role => role.display)).toEqual(['Organizational: Nurse']);
+    expect(provider?.person?.uuid).toBe(user.person.uuid);
+    expect(await logInAs(playwright, provisioned.username, provisioned.password)).toBe(user.uuid);
+
+    await seeder.cleanup();
+
+    expect((await apiHelpers.getUser(user.uuid)).retired).toBe(true);
+    expect(await apiHelpers.getRaw(`provider/${provider?.uuid}`)).toMatchObject({ retired: true });
+    expect(server.requests.filter(line => line.startsWith('DELETE person/'))).toEqual([
+      `DELETE person/${user.person.uuid}`,
+    ]);
+    await expect(
+      logInAs(playwright, provisioned.username, provisioned.password)
+    ).rejects.toBeInstanceOf(OpenmrsAuthError);
+  });
+
+  test(`${testConfig.tags.API} should page through FHIR patient searches`, async ({ request }) => {
+    const seeder = new DataSeeder(await loggedIn(newApiHelpers(request), 'Registration Desk'));
+    const seeded = [];
+    for (let i = 0; i < 5; i++) {
+      seeded.push(
+        await seeder.seedPatient(aPatient().withFamilyName('Fhirpaging').buildApiPayload())
+      );
+    }
+    const fhirClient = new FhirClient(request, baseURL, {
+      auth: createAuthStrategy('admin', 'Admin123'),
+    });
+
+    const firstPage = await fhirClient.search('Patient', { family: 'Fhirpaging' });
+    expect(firstPage.total).toBe(5);
+    expect(firstPage.entry?.map(entry => entry.resource.id)).toEqual(
+      seeded.slice(0, 2).map(patient => patient.uuid)
+    );
+    const secondPage = await fhirClient.nextPage(firstPage);
+    expect(secondPage?.entry?.map(entry => entry.resource.id)).toEqual(
+      seeded.slice(2, 4).map(patient => patient.uuid)
+    );
+
+    const iterated = [];
+    for await (const patient of fhirClient.iterate('Patient', { family: 'Fhirpaging' })) {
+      iterated.push(patient.id);
+    }
+    expect(iterated).toEqual(seeded.map(patient => patient.uuid));
+    expect(await fhirClient.searchAll('Patient', { family: 'Fhirpaging' }, 3)).toHaveLength(3);
+  });
+
+  test(`${testConfig.tags.API} should create and delete a FHIR patient`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const fhirClient = new FhirClient(request, baseURL, {
+      auth: createAuthStrategy('admin', 'Admin123'),
+    });
+    const { identifier } = await apiHelpers.generateIdentifierForType();
+
+    const created = await fhirClient.create({
+      resourceType: 'Patient',
+      identifier: [{ use: 'official', type: { text: 'OpenMRS ID' }, value: identifier }],
+      name: [{ given: ['Ada'], family: 'Lovelace' }],
+      gender: 'female',
+      birthDate: '1990-12-10',
+    });
+
+    expect(created.id).toBeDefined();
+    const patientUuid = String(created.id);
+    const patient = await apiHelpers.getPatient(patientUuid);
+    expect(patient.person.preferredName.familyName).toBe('Lovelace');
+    expect(patient.identifiers.map(i => i.identifier)).toEqual([identifier]);
+    expect((await fhirClient.read('Patient', patientUuid)).birthDate).toBe('1990-12-10');
+
+    await fhirClient.delete('Patient', patientUuid);
+    expect(await fhirClient.find('Patient', patientUuid)).toBeUndefined();
+    expect((await apiHelpers.getPatient(patientUuid)).voided).toBe(true);
+    // Deleting again is not an error
+    await fhirClient.delete('Patient', patientUuid);
+
+    await expect(
+      fhirClient.create({
+        resourceType: 'Patient',
+        name: [{ given: ['No'], family: 'Identifier' }],
+      })
+    ).rejects.toBeInstanceOf(OpenmrsValidationError);
+  });
+
+  test(`${testConfig.tags.API} should void or purge a patient`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const seeder = new DataSeeder(apiHelpers);
+    const voided = await seeder.seedPatient();
+    const purged = await seeder.seedPatient();
+    const visit = await seeder.seedActiveVisit(purged.uuid);
+    await seeder.seedVitals(purged.uuid, { weight: 70 }, { visitUuid: visit.uuid });
+
+    await apiHelpers.deletePatient(voided.uuid);
+    await apiHelpers.deletePatient(purged.uuid, { mode: 'purge' });
+
+    const afterVoid = await apiHelpers.searchPatients(voided.id, { includeVoided: true });
+    expect(afterVoid[0]?.voided).toBe(true);
+    expect(await apiHelpers.searchPatients(voided.id)).toHaveLength(0);
+    expect(await apiHelpers.searchPatients(purged.id, { includeVoided: true })).toHaveLength(0);
+  });
+
+  test(`${testConfig.tags.API} should sweep only patients carrying the prefix`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const swept = await apiHelpers.createTestPatient(
+      aPatient().withFamilyName('Zzqsmith').buildApiPayload()
+    );
+    const kept = await apiHelpers.createTestPatient(
+      aPatient().withFamilyName('Smithzzq').buildApiPayload()
+    );
+
+    for (const prefix of ['', '  ', 'zz']) {
+      await expect(apiHelpers.sweepTestPatients(prefix)).rejects.toThrow(/at least 3 characters/);
+    }
+
+    const report = await apiHelpers.sweepTestPatients('zzq');
+    expect(report.succeeded.map(({ input }) => input.uuid)).toEqual([swept.uuid]);
+    expect(await apiHelpers.searchPatients(swept.id, { includeVoided: true })).toHaveLength(0);
+    expect(await apiHelpers.searchPatients(kept.id)).toHaveLength(1);
+  });
+
+  test(`${testConfig.tags.API} should merge a duplicate patient`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Registration Desk');
+    const seeder = new DataSeeder(apiHelpers);
+    const preferred = await seeder.seedPatient();
+    const duplicate = await seeder.seedPatient();
+    const visit = await seeder.seedActiveVisit(duplicate.uuid);
+
+    const survivor = await apiHelpers.mergePatients(preferred.uuid, duplicate.uuid);
+
+    expect(survivor.identifiers.map(identifier => identifier.identifier)).toEqual([
+      preferred.id,
+      duplicate.id,
+    ]);
+    expect(survivor.person.preferredName.familyName).toBe(preferred.patientData.familyName);
+    expect(survivor.person.names).toHaveLength(2);
+    expect((await apiHelpers.getActiveVisits(preferred.uuid)).map(v => v.uuid)).toEqual([
+      visit.uuid,
+    ]);
+    expect((await apiHelpers.getPatient(duplicate.uuid)).voided).toBe(true);
+
+    await expect(apiHelpers.mergePatients(preferred.uuid, duplicate.uuid)).rejects.toThrow(
+      /was not applied/
+    );
+  });
+
+  test(`${testConfig.tags.API} should restore overridden system settings`, async ({ request }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request));
+    const overrides = new SystemSettingOverrides(apiHelpers);
+
+    await overrides.setAll({ 'locale.allowed.list': 'en, fr', 'test.new.property': 'on' });
+    await overrides.set('locale.allowed.list', 'en');
+    expect(await overrides.get('locale.allowed.list')).toBe('en');
+    expect(await overrides.get('test.new.property')).toBe('on');
+
+    await overrides.restore();
+
+    expect(await overrides.get('locale.allowed.list')).toBe('en, en_GB, es, fr, it, pt');
+    expect(await apiHelpers.findSystemSetting('test.new.property')).toBeUndefined();
+  });
+
+  test(`${testConfig.tags.API} should log in again when the session expires`, async ({
+    request,
+  }) => {
+    const apiHelpers = await loggedIn(newApiHelpers(request), 'Pharmacy');
+
+    server.expireSessions();
+
+    // GET session does not 401, it reports authenticated: false; any other resource does
+    expect(await apiHelpers.getLocations()).not.toHaveLength(0);
+    expect((await apiHelpers.getSessionLocation())?.display).toBe('Pharmacy');
+  });
+
+  test(`${testConfig.tags.API} should send basic credentials with every request`, async ({
+    request,
+  }) => {
+    const apiHelpers = newApiHelpers(request);
+    await apiHelpers.useAuthStrategy(new BasicAuthStrategy('admin', 'Admin123'));
+
+    await apiHelpers.getLocations();
+    server.expireSessions();
+    await apiHelpers.getSystemInfo();
+
+    expect(server.requests.filter(line => line.endsWith(' session'))).toEqual(['GET session']);
+    expect(new Set(server.credentials)).toEqual(new Set(['basic']));
+  });
+
+  test(`${testConfig.tags.API} should reject a wrong basic password when authenticating`, async ({
+    request,
+  }) => {
+    await expect(
+      new BasicAuthStrategy('admin', 'wrong').authenticate({ apiContext: request, baseURL })
+    ).rejects.toBeInstanceOf(OpenmrsAuthError);
+  });
+
+  test(`${testConfig.tags.API} should get a bearer token and refresh it before it expires`, async ({
+    request,
+  }) => {
+    const auth = new BearerTokenStrategy({
+      tokenUrl: server.tokenURL,
+      clientId: 'openmrs-tests',
+      username: 'admin',
+      password: 'Admin123',
+      // The mock's tokens expire in 300 seconds: refresh one second after getting one
+      refreshMarginMs: 299 * 1000,
+    });
+    const apiHelpers = newApiHelpers(request);
+    await apiHelpers.useAuthStrategy(auth);
+    const firstToken = auth.getHeaders().Authorization;
+
+    expect(auth.needsAuthentication()).toBe(false);
+    await apiHelpers.getSystemInfo();
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    expect(auth.needsAuthentication()).toBe(true);
+    await apiHelpers.getSystemInfo();
+
+    expect(server.grants).toEqual(['password', 'refresh_token']);
+    expect(auth.getHeaders().Authorization).not.toBe(firstToken);
+    expect(server.credentials).toEqual(['bearer', 'bearer']);
+  });
+
+  test(`${testConfig.tags.API} should request a new token when the refresh is rejected`, async ({
+    request,
+  }) => {
+    const apiHelpers = newApiHelpers(request);
+    await apiHelpers.useAuthStrategy(
+      new BearerTokenStrategy({
+        tokenUrl: server.tokenURL,
+        clientId: 'openmrs-tests',
+        username: 'admin',
+        password: 'Admin123',
+      })
+    );
+
+    server.revokeTokens();
+
+    expect((await apiHelpers.getSystemInfo()).systemInfo).toBeDefined();
+    expect(server.grants).toEqual(['password', 'refresh_token', 'password']);
+  });
+
+  test(`${testConfig.tags.API} should pick the auth strategy from the environment`, async ({
+    request,
+  }) => {
+    expect(createAuthStrategy('admin', 'Admin123', {})).toBeInstanceOf(SessionAuthStrategy);
+    expect(createAuthStrategy('admin', 'Admin123', { AUTH_STRATEGY: 'basic' })).toBeInstanceOf(
+      BasicAuthStrategy
+    );
+    expect(() => createAuthStrategy('admin', 'Admin123', { AUTH_STRATEGY: 'kerberos' })).toThrow(
+      'Unknown AUTH_STRATEGY: kerberos (expected session, basic or bearer)'
+    );
+    expect(() =>
+      createAuthStrategy('admin', 'Admin123', {
+        AUTH_STRATEGY: 'bearer',
+        OAUTH_CLIENT_ID: 'openmrs-tests',
+      })
+    ).toThrow('AUTH_STRATEGY=bearer needs OAUTH_TOKEN_URL and OAUTH_CLIENT_ID');
+
+    const bearerEnv = {
+      AUTH_STRATEGY: 'bearer',
+      OAUTH_TOKEN_URL: server.tokenURL,
+      OAUTH_CLIENT_ID: 'openmrs-tests',
+    };
+    const passwordGrant = createAuthStrategy('admin', 'Admin123', bearerEnv);
+    const clientGrant = createAuthStrategy('admin', 'Admin123', {
+      ...bearerEnv,
+      OAUTH_GRANT: 'client_credentials',
+    });
+    expect(passwordGrant).toBeInstanceOf(BearerTokenStrategy);
+    await passwordGrant.authenticate({ apiContext: request, baseURL });
+    await clientGrant.authenticate({ apiContext: request, baseURL });
+
+    expect(server.grants).toEqual(['password', 'client_credentials']);
+  });
+
+  test(`${testConfig.tags.API} should retry a GET the server could not answer, backing off`, async ({
+    request,
+  }) => {
+    const retries: RetryAttempt[] = [];
+    const apiHelpers = await loggedIn(retryingApiHelpers(request, retries));
+    server.failNext(2);
+
+    expect((await apiHelpers.getSystemInfo()).systemInfo).toBeDefined();
+
+    expect(server.requests.filter(line => line === 'GET systeminfo')).toHaveLength(3);
+    expect(
+      retries.map(({ attempt, maxAttempts, delayMs }) => [attempt, maxAttempts, delayMs])
+    ).toEqual([
+      [2, 3, 10],
+      [3, 3, 30],
+    ]);
+    expect(retries[0].error).toBeInstanceOf(OpenmrsServerError);
+  });
+
+  test(`${testConfig.tags.API} should give up after the last attempt`, async ({ request }) => {
+    const retries: RetryAttempt[] = [];
+    const apiHelpers = await loggedIn(retryingApiHelpers(request, retries));
+    server.failNext(5);
+
+    await expect(apiHelpers.getSystemInfo()).rejects.toBeInstanceOf(OpenmrsServerError);
+
+    expect(server.requests.filter(line => line === 'GET systeminfo')).toHaveLength(3);
+    expect(retries).toHaveLength(2);
+  });
+
+  test(`${testConfig.tags.API} should not retry a POST unless the policy allows it`, async ({
+    request,
+  }) => {
+    const retries: RetryAttempt[] = [];
+    const person = { givenName: 'Pat', familyName: 'Post', gender: 'U' as const };
+    const apiHelpers = await loggedIn(retryingApiHelpers(request, retries));
+    server.failNext(1);
+
+    await expect(apiHelpers.createPerson(person)).rejects.toBeInstanceOf(OpenmrsServerError);
+    expect(server.requests.filter(line => line === 'POST person')).toHaveLength(1);
+    expect(retries).toEqual([]);
+
+    const retryingPosts = await loggedIn(
+      retryingApiHelpers(request, retries, { retryNonIdempotent: true })
+    );
+    server.failNext(1);
+
+    expect((await retryingPosts.createPerson(person)).uuid).toBeTruthy();
+    expect(server.requests.filter(line => line === 'POST person')).toHaveLength(3);
+    expect(retries).toHaveLength(1);
+  });
+});
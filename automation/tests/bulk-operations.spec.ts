@@ -0,0 +1,118 @@
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { runBulk } from '../utils/bulk-operations';
+import type { BulkProgress } from '../utils/bulk-operations';
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Operation for the numbers 1 to 5 that settles the later items first and
+ * fails for the given ones
+ */
+const failingOn =
+  (...failing: number[]) =>
+  async (item: number): Promise<number> => {
+    await delay((6 - item) * 5);
+    if (failing.includes(item)) {
+      throw new Error(`item ${item} failed`);
+    }
+    return item * 10;
+  };
+
+/**
+ * Tests of runBulk itself; they need neither a server nor a browser, and run
+ * with the API tests
+ */
+test.describe('Bulk operations', () => {
+  const items = [1, 2, 3, 4, 5];
+
+  test(`${testConfig.tags.API} should keep at most the concurrency limit in flight`, async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runBulk(
+      Array.from({ length: 12 }, (_, index) => index),
+      async index => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(index % 4);
+        inFlight--;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  test(`${testConfig.tags.API} should report progress after every item`, async () => {
+    const progress: BulkProgress[] = [];
+
+    await runBulk(items, failingOn(2), {
+      concurrency: 2,
+      onProgress: update => progress.push(update),
+    });
+
+    expect(progress.map(update => update.completed)).toEqual([1, 2, 3, 4, 5]);
+    expect(progress.every(update => update.total === 5)).toBe(true);
+    expect(progress.at(-1)).toEqual({ completed: 5, total: 5, succeeded: 4, failed: 1 });
+  });
+
+  test(`${testConfig.tags.API} should report items in input order`, async () => {
+    const report = await runBulk(items, failingOn(2, 4), { concurrency: 5 });
+
+    expect(report.total).toBe(5);
+    expect(report.succeeded.map(({ index, result }) => [index, result])).toEqual([
+      [0, 10],
+      [2, 30],
+      [4, 50],
+    ]);
+    expect(report.failed.map(({ input, error }) => [input, String(error)])).toEqual([
+      [2, 'Error: item 2 failed'],
+      [4, 'Error: item 4 failed'],
+    ]);
+    expect(report.rolledBack).toBe(false);
+  });
+
+  test(`${testConfig.tags.API} should undo a partly failed batch and report what it could not undo`, async () => {
+    const undone: number[] = [];
+
+    const report = await runBulk(items, failingOn(3), {
+      rollback: async (result, input) => {
+        await delay(1);
+        expect(result).toBe(input * 10);
+        if (input === 4) {
+          throw new Error('item 4 is still there');
+        }
+        undone.push(input);
+      },
+    });
+
+    expect(report.rolledBack).toBe(true);
+    expect(undone.sort()).toEqual([1, 2, 5]);
+    expect(report.rollbackFailures.map(({ index, input }) => [index, input])).toEqual([[3, 4]]);
+  });
+
+  test(`${testConfig.tags.API} should leave a batch that fully succeeded alone`, async () => {
+    const undone: number[] = [];
+
+    const report = await runBulk(items, failingOn(), {
+      rollback: async (_result, input) => {
+        undone.push(input);
+      },
+    });
+
+    expect(report.succeeded).toHaveLength(5);
+    expect(report.rolledBack).toBe(false);
+    expect(undone).toEqual([]);
+  });
+
+  test(`${testConfig.tags.API} should finish the batch when the progress callback throws`, async () => {
+    const report = await runBulk(items, failingOn(), {
+      concurrency: 2,
+      onProgress: () => {
+        throw new Error('progress bar broke');
+      },
+    });
+
+    expect(report.succeeded.map(({ input }) => input)).toEqual(items);
+  });
+});
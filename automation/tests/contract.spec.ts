@@ -0,0 +1,85 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { DataSeeder } from '../utils/api-helpers';
+import { ContractValidator, formatViolations } from '../utils/contract-validator';
+
+/**
+ * Contract tests: the REST responses the helpers depend on still have the
+ * shape described by the schemas in automation/contracts/<CONTRACT_VERSION>.
+ * Run them first after a server upgrade (npm run test:contract).
+ */
+test.describe('REST API contracts', () => {
+  const tags = `${testConfig.tags.API} ${testConfig.tags.CONTRACT}`;
+
+  test(`${tags} session should match its contract`, async ({ apiHelpers }) => {
+    const session = await apiHelpers.getRaw('session');
+    expect(session).toMatchContract('session');
+  });
+
+  test(`${tags} patient should match its contract`, async ({ apiHelpers }) => {
+    const dataSeeder = new DataSeeder(apiHelpers);
+    try {
+      const patient = await dataSeeder.seedPatient();
+
+      expect(await apiHelpers.getRaw(`patient/${patient.uuid}`, { v: 'full' })).toMatchContract(
+        'patient'
+      );
+      expect(
+        await apiHelpers.getRaw('patient', { identifier: patient.id, v: 'full' })
+      ).toMatchContract('patient-list');
+    } finally {
+      await dataSeeder.cleanup();
+    }
+  });
+
+  test(`${tags} location list should match its contract`, async ({ apiHelpers }) => {
+    const locations = await apiHelpers.getRaw('location', { v: 'full' });
+    expect(locations).toMatchContract('location-list');
+  });
+
+  test(`${tags} systeminfo should match its contract`, async ({ apiHelpers }) => {
+    const systemInfo = await apiHelpers.getRaw('systeminfo');
+    expect(systemInfo).toMatchContract('systeminfo');
+  });
+
+  test(`${tags} should report each violating field`, () => {
+    const brokenPatient = {
+      uuid: 'c4a7bd5a-3d7c-4c5e-9f6b-7b0c5a1e2f3d',
+      display: '100000M - Jane Doe',
+      voided: false,
+      identifiers: [{ uuid: 'x', identifier: 100000, identifierType: null, preferred: true }],
+      person: { uuid: 'p', gender: 'female', names: [] },
+    };
+
+    const violations = new ContractValidator().validate('patient', brokenPatient);
+
+    expect(formatViolations('patient', violations).split('\n').slice(1)).toEqual([
+      '  - identifiers[0].identifier: expected string, got 100000',
+      '  - identifiers[0].identifierType: expected object, got null',
+      '  - person.birthdate: expected present, got missing',
+      '  - person.preferredName: expected present, got missing',
+      '  - person.addresses: expected present, got missing',
+      '  - person.attributes: expected present, got missing',
+      '  - person.gender: expected one of "M", "F", "O", "U", got "female"',
+      '  - person.names: expected at least 1 item(s), got 0 item(s)',
+    ]);
+  });
+
+  test(`${tags} should refuse a schema with keywords it cannot check`, async ({}, testInfo) => {
+    const contractsDir = testInfo.outputPath('contracts');
+    mkdirSync(`${contractsDir}/v1`, { recursive: true });
+    writeFileSync(
+      `${contractsDir}/v1/visit.schema.json`,
+      JSON.stringify({
+        type: 'object',
+        properties: { startDatetime: { type: 'string', format: 'date-time' } },
+      })
+    );
+
+    const validator = new ContractValidator('v1', contractsDir);
+
+    expect(() => validator.validate('visit', { startDatetime: 'yesterday' })).toThrow(
+      'Contract v1/visit uses unsupported keyword(s) format at startDatetime'
+    );
+  });
+});
@@ -65,12 +65,25 @@ test.describe('Login Tests', () => {
     expect(await loginPage.isLoginPageDisplayed()).toBe(true);
   });
 
+  test(`${testConfig.tags.REGRESSION} should offer exactly the login locations configured on the server`, async ({
+    loginPage,
+    loginLocations
+  }) => {
+    await loginPage.goto();
+
+    const uiLocations = (await loginPage.getLocationOptions()).map(location => location.trim());
+
+    expect(uiLocations.length).toBeGreaterThan(0);
+    expect([...uiLocations].sort()).toEqual([...loginLocations].sort());
+  });
+
   test(`${testConfig.tags.REGRESSION} should handle different valid locations`, async ({ 
     loginPage, 
     homePage, 
-    adminUser 
+    adminUser,
+    loginLocations
   }) => {
-    for (const location of testConfig.testData.VALID_LOCATIONS) {
+    for (const location of loginLocations) {
       // Clear any existing session
       await loginPage.page.context().clearCookies();
       
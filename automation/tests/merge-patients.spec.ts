@@ -0,0 +1,51 @@
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { DataSeeder } from '../utils/api-helpers';
+
+test.describe('Merge Patients Tests', () => {
+  let dataSeeder: DataSeeder;
+
+  test.beforeEach(async ({ apiHelpers }) => {
+    dataSeeder = new DataSeeder(apiHelpers);
+  });
+
+  test.afterEach(async () => {
+    await dataSeeder.cleanup();
+  });
+
+  test(`${testConfig.tags.REGRESSION} should merge a duplicate into the preferred record`, async ({
+    loggedInUser: _loggedInUser,
+    mergePatientsPage,
+    apiHelpers,
+  }) => {
+    const preferred = await dataSeeder.seedPatient();
+    const duplicate = await dataSeeder.seedPatient();
+    const duplicateVisit = await dataSeeder.seedActiveVisit(duplicate.uuid);
+
+    await mergePatientsPage.goto();
+    await mergePatientsPage.selectPatients(preferred.id, duplicate.id);
+
+    const firstRecord = (await mergePatientsPage.getRecordDetails('first')).join(' ');
+    const secondRecord = (await mergePatientsPage.getRecordDetails('second')).join(' ');
+    expect(firstRecord).toContain(preferred.id);
+    expect(firstRecord).toContain(preferred.patientData.familyName);
+    expect(secondRecord).toContain(duplicate.id);
+    expect(secondRecord).toContain(duplicate.patientData.familyName);
+
+    await mergePatientsPage.choosePreferred('first');
+    await mergePatientsPage.confirmMerge();
+
+    const survivor = await apiHelpers.getPatient(preferred.uuid);
+    expect(survivor.identifiers.map(identifier => identifier.identifier)).toEqual(
+      expect.arrayContaining([preferred.id, duplicate.id])
+    );
+    expect(survivor.person.preferredName.familyName).toBe(preferred.patientData.familyName);
+    expect(survivor.person.names.map(name => name.familyName)).toContain(
+      duplicate.patientData.familyName
+    );
+
+    const visits = await apiHelpers.getActiveVisits(preferred.uuid);
+    expect(visits.map(visit => visit.uuid)).toContain(duplicateVisit.uuid);
+
+    expect((await apiHelpers.getPatient(duplicate.uuid)).voided).toBe(true);
+  });
+});
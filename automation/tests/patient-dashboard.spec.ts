@@ -0,0 +1,99 @@
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { DataSeeder } from '../utils/api-helpers';
+
+test.describe('Patient Dashboard Tests', () => {
+  let dataSeeder: DataSeeder;
+
+  test.beforeEach(async ({ apiHelpers }) => {
+    dataSeeder = new DataSeeder(apiHelpers);
+  });
+
+  test.afterEach(async () => {
+    await dataSeeder.cleanup();
+  });
+
+  test(`${testConfig.tags.REGRESSION} should show seeded vitals and observations`, async ({
+    loggedInUser: _loggedInUser,
+    patientDetailPage,
+  }) => {
+    const patient = await dataSeeder.seedPatient();
+    const visit = await dataSeeder.seedActiveVisit(patient.uuid);
+    await dataSeeder.seedVitals(
+      patient.uuid,
+      {
+        bloodPressure: { systolic: 120, diastolic: 80 },
+        temperature: 36.6,
+        heartRate: 72,
+        weight: 70,
+        height: 175,
+      },
+      { visitUuid: visit.uuid }
+    );
+
+    await patientDetailPage.goto(patient.uuid);
+
+    const vitals = await patientDetailPage.getPatientVitals();
+    expect(vitals.bloodPressure).toBe('120/80');
+    expect(parseFloat(vitals.temperature ?? '')).toBe(36.6);
+    expect(parseFloat(vitals.heartRate ?? '')).toBe(72);
+    expect(parseFloat(vitals.weight ?? '')).toBe(70);
+    expect(parseFloat(vitals.height ?? '')).toBe(175);
+
+    const observations = await patientDetailPage.getPatientObservations();
+    const valueOf = (label: RegExp) =>
+      parseFloat(observations.find(observation => label.test(observation.name))?.value ?? '');
+    expect(valueOf(/weight/i)).toBe(70);
+    expect(valueOf(/height/i)).toBe(175);
+    expect(valueOf(/temperature/i)).toBe(36.6);
+  });
+
+  test(`${testConfig.tags.REGRESSION} should show seeded allergies and conditions`, async ({
+    loggedInUser: _loggedInUser,
+    patientDetailPage,
+  }) => {
+    const patient = await dataSeeder.seedPatient();
+    await dataSeeder.seedMedicalData(patient.uuid, {
+      allergies: ['Penicillin'],
+      conditions: ['Hypertension'],
+    });
+
+    await patientDetailPage.goto(patient.uuid);
+
+    expect(await patientDetailPage.hasSectionWithContent('allergies')).toBe(true);
+    expect(await patientDetailPage.hasSectionWithContent('conditions')).toBe(true);
+  });
+
+  test(`${testConfig.tags.REGRESSION} should show empty allergies and conditions for a new patient`, async ({
+    loggedInUser: _loggedInUser,
+    patientDetailPage,
+  }) => {
+    const patient = await dataSeeder.seedPatient();
+
+    await patientDetailPage.goto(patient.uuid);
+
+    expect(await patientDetailPage.hasSectionWithContent('allergies')).toBe(false);
+    expect(await patientDetailPage.hasSectionWithContent('conditions')).toBe(false);
+  });
+
+  test(`${testConfig.tags.REGRESSION} should list seeded relatives with their relationship`, async ({
+    loggedInUser: _loggedInUser,
+    patientDetailPage,
+  }) => {
+    const patient = await dataSeeder.seedPatient();
+    const relatives = await dataSeeder.seedRelatives(patient.uuid, [
+      { relationshipType: 'Parent', personName: 'Ada Lovelace' },
+      { relationshipType: 'Sibling', personName: 'Byron King' },
+    ]);
+
+    await patientDetailPage.goto(patient.uuid);
+
+    expect(await patientDetailPage.getPatientRelatives()).toEqual(
+      expect.arrayContaining(
+        relatives.map(({ relative, person }) => ({
+          name: person.display,
+          relationship: relative.relationshipType,
+        }))
+      )
+    );
+  });
+});
@@ -1,32 +1,71 @@
 import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { generateInvalidPatientData } from '../utils/data-generator';
+import { aPatient } from '../utils/patient-builder';
 import {
-  generateInvalidPatientData,
-  generatePatientDataWithCriteria,
-} from '../utils/data-generator';
+  describeRegistrationCase,
+  registrationCasePatient,
+  registrationCases,
+} from '../utils/registration-matrix';
+import { PHONE_NUMBER_ATTRIBUTE_TYPE } from '../utils/api-helpers';
+import type { ApiHelpers } from '../utils/api-helpers';
+import type { PatientFull, Relationship, RelationshipType } from '../utils/openmrs-models';
 import { RelativeData } from '../pages/RegistrationPage';
-import { LoginPage } from '../pages/LoginPage';
-import { HomePage } from '../pages/HomePage';
 import { RegistrationPage } from '../pages/RegistrationPage';
+import type { PatientData } from '../pages/RegistrationPage';
+import type { PatientDetailPage } from '../pages/PatientDetailPage';
+
+/**
+ * Void patients an earlier run left with the same name: the data seed gives
+ * every run the same names, and the tests below pick the first search result
+ */
+async function removeLeftoverPatients(apiHelpers: ApiHelpers, patient: PatientData): Promise<void> {
+  const leftovers = await apiHelpers.searchPatients(`${patient.givenName} ${patient.familyName}`, {
+    matchOn: 'name',
+  });
+  await apiHelpers.cleanupPatients(leftovers.map(leftover => leftover.uuid));
+}
+
+/**
+ * The patient open on the detail page, looked up by its identifier
+ */
+async function getRegisteredPatient(
+  apiHelpers: ApiHelpers,
+  patientDetailPage: PatientDetailPage
+): Promise<PatientFull> {
+  const patientId = await patientDetailPage.getPatientId();
+  const [registered] = await apiHelpers.searchPatients(patientId, { matchOn: 'identifier' });
+  if (!registered) {
+    throw new Error(`No patient with identifier "${patientId}" after registration`);
+  }
+  return registered;
+}
+
+/**
+ * A patient's relatives as the registration form takes them, read back from
+ * its relationships: the other person's name and what they are to the patient
+ */
+function relativesOf(
+  patientUuid: string,
+  relationships: Relationship[],
+  relationshipTypes: RelationshipType[]
+): RelativeData[] {
+  return relationships.map(relationship => {
+    const relationshipType = relationshipTypes.find(
+      type => type.uuid === relationship.relationshipType.uuid
+    );
+    const relativeIsA = relationship.personB.uuid === patientUuid;
+    return {
+      relationshipType: String(relativeIsA ? relationshipType?.aIsToB : relationshipType?.bIsToA),
+      personName: (relativeIsA ? relationship.personA : relationship.personB).display,
+    };
+  });
+}
 
 test.describe('Patient Registration Tests', () => {
   test.describe.configure({ timeout: 180000 }); // 3 minutes
 
-  test.beforeEach(async ({ page }) => {
-    console.log('Setting up registration test (simplified approach)...');
-
-    const loginPage = new LoginPage(page);
-    const homePage = new HomePage(page);
-    // const registrationPage = new RegistrationPage(page);
-
-    try {
-      await loginPage.goto();
-      await loginPage.login('admin', 'Admin123');
-      await homePage.waitForPageLoad();
-    } catch (error) {
-      console.error('Error during setup:', error);
-
-      throw error;
-    }
+  test.beforeEach(async ({ loggedInUser: _loggedInUser }) => {
+    // Every test starts on the home page, logged in through the API
   });
 
   test(`${testConfig.tags.SMOKE} ${testConfig.tags.CRITICAL} should display patient registration form`, async ({
@@ -54,9 +93,11 @@ test.describe('Patient Registration Tests', () => {
     homePage,
     patientDetailPage,
     patientSearchPage,
+    apiHelpers,
     testPatient,
   }) => {
     const patienData = testPatient;
+    await removeLeftoverPatients(apiHelpers, testPatient);
     const simpleIsVisible = await homePage.simpleRegisterPatientIsVisible();
 
     if (!simpleIsVisible) {
@@ -86,26 +127,31 @@ test.describe('Patient Registration Tests', () => {
     }
     await patientDetailPage.waitForPageLoad();
     expect(await patientDetailPage.isOnPatientDetailPage()).toBe(true);
+    const registered = await getRegisteredPatient(apiHelpers, patientDetailPage);
 
-    // Verify patient data matches what was registered
-    const patientInfo = await patientDetailPage.getPatientInfo();
-    console.log('Registered Patient Info:', {
-      givenName: patientInfo.givenName,
-      familyName: patientInfo.familyName,
-      gender: patientInfo.gender,
-      birthdate: patientInfo.birthdate,
-      patientId: patientInfo.patientId,
-    });
-
-    console.log('ini patient info', patientInfo);
-
-    // Verify the core data matches
-    const isRegistrationValid = await patientDetailPage.verifyPatientRegistration({
-      givenName: testPatient.givenName,
-      familyName: testPatient.familyName,
-      gender: testPatient.gender,
-    });
-    expect(isRegistrationValid).toBe(true);
+    try {
+      // Verify patient data matches what was registered
+      const patientInfo = await patientDetailPage.getPatientInfo();
+      console.log('Registered Patient Info:', {
+        givenName: patientInfo.givenName,
+        familyName: patientInfo.familyName,
+        gender: patientInfo.gender,
+        birthdate: patientInfo.birthdate,
+        patientId: patientInfo.patientId,
+      });
+
+      console.log('ini patient info', patientInfo);
+
+      // Verify the core data matches
+      const isRegistrationValid = await patientDetailPage.verifyPatientRegistration({
+        givenName: testPatient.givenName,
+        familyName: testPatient.familyName,
+        gender: testPatient.gender,
+      });
+      expect(isRegistrationValid).toBe(true);
+    } finally {
+      await apiHelpers.cleanupPatients([registered.uuid]);
+    }
   });
 
   test(`${testConfig.tags.REGRESSION} should register male patient`, async ({
@@ -113,8 +159,11 @@ test.describe('Patient Registration Tests', () => {
     homePage,
     patientDetailPage,
     patientSearchPage,
+    apiHelpers,
+    dataLocale,
   }) => {
-    const malePatient = generatePatientDataWithCriteria({ gender: 'M' });
+    const malePatient = aPatient().inLocale(dataLocale).male().build();
+    await removeLeftoverPatients(apiHelpers, malePatient);
     const simpleIsVisible = await homePage.simpleRegisterPatientIsVisible();
     if (!simpleIsVisible) {
       await homePage.goToRegisterPatient();
@@ -141,15 +190,22 @@ test.describe('Patient Registration Tests', () => {
 
     await patientDetailPage.waitForPageLoad();
     expect(await patientDetailPage.isOnPatientDetailPage()).toBe(true);
+    const registered = await getRegisteredPatient(apiHelpers, patientDetailPage);
 
-    // Verify patient data matches what was registered
-    const patientInfo = await patientDetailPage.getPatientInfo();
-    expect(patientInfo.gender).toContain('Male');
-
-    console.log('Male Patient Registered:', {
-      name: `${patientInfo.givenName} ${patientInfo.familyName}`,
-      gender: patientInfo.gender,
-    });
+    try {
+      expect(registered.person.preferredName.familyName).toBe(malePatient.familyName);
+
+      // Verify patient data matches what was registered
+      const patientInfo = await patientDetailPage.getPatientInfo();
+      expect(patientInfo.gender).toContain('Male');
+
+      console.log('Male Patient Registered:', {
+        name: `${patientInfo.givenName} ${patientInfo.familyName}`,
+        gender: patientInfo.gender,
+      });
+    } finally {
+      await apiHelpers.cleanupPatients([registered.uuid]);
+    }
   });
 
   test(`${testConfig.tags.REGRESSION} should register female patient`, async ({
@@ -157,8 +213,11 @@ test.describe('Patient Registration Tests', () => {
     homePage,
     patientDetailPage,
     patientSearchPage,
+    apiHelpers,
+    dataLocale,
   }) => {
-    const fefmalePatient = generatePatientDataWithCriteria({ gender: 'F' });
+    const fefmalePatient = aPatient().inLocale(dataLocale).female().build();
+    await removeLeftoverPatients(apiHelpers, fefmalePatient);
     const simpleIsVisible = await homePage.simpleRegisterPatientIsVisible();
 
     if (!simpleIsVisible) {
@@ -186,14 +245,119 @@ test.describe('Patient Registration Tests', () => {
 
     await patientDetailPage.waitForPageLoad();
     expect(await patientDetailPage.isOnPatientDetailPage()).toBe(true);
+    const registered = await getRegisteredPatient(apiHelpers, patientDetailPage);
 
-    // Verify patient data matches what was registered
-    const patientInfo = await patientDetailPage.getPatientInfo();
-    expect(patientInfo.gender).toContain('Female');
+    try {
+      expect(registered.person.preferredName.familyName).toBe(fefmalePatient.familyName);
+
+      // Verify patient data matches what was registered
+      const patientInfo = await patientDetailPage.getPatientInfo();
+      expect(patientInfo.gender).toContain('Female');
+
+      console.log('Female Patient Registered:', {
+        name: `${patientInfo.givenName} ${patientInfo.familyName}`,
+        gender: patientInfo.gender,
+      });
+    } finally {
+      await apiHelpers.cleanupPatients([registered.uuid]);
+    }
+  });
 
-    console.log('Male Patient Registered:', {
-      name: `${patientInfo.givenName} ${patientInfo.familyName}`,
-      gender: patientInfo.gender,
-    });
+  test(`${testConfig.tags.REGRESSION} should expose registered patient through FHIR`, async ({
+    registrationPage,
+    homePage,
+    patientDetailPage,
+    patientSearchPage,
+    fhirClient,
+    apiHelpers,
+    testPatient,
+  }) => {
+    await removeLeftoverPatients(apiHelpers, testPatient);
+    const simpleIsVisible = await homePage.simpleRegisterPatientIsVisible();
+    if (!simpleIsVisible) {
+      await homePage.goToRegisterPatient();
+      await registrationPage.waitForPageLoad();
+      await registrationPage.registerPatient(testPatient);
+    } else {
+      await registrationPage.simpleRegisterPatient(testPatient);
+
+      await homePage.waitForPageLoad();
+      await homePage.goToFindPatient();
+      await patientSearchPage.waitForPageLoad();
+
+      const searchResult = await patientSearchPage.searchPatient(
+        `${testPatient.givenName} ${testPatient.familyName}`
+      );
+      expect(searchResult.success).toBe(true);
+
+      await patientSearchPage.selectPatient(searchResult.patients[0].index);
+    }
+    await patientDetailPage.waitForPageLoad();
+    const registered = await getRegisteredPatient(apiHelpers, patientDetailPage);
+
+    try {
+      const patientId = await patientDetailPage.getPatientId();
+      const bundle = await fhirClient.search('Patient', { identifier: patientId });
+      expect(bundle.entry).toHaveLength(1);
+
+      const fhirPatient = bundle.entry?.[0]?.resource;
+      expect(fhirPatient?.id).toBe(registered.uuid);
+      expect(fhirPatient?.name?.[0]?.given?.[0]).toBe(testPatient.givenName);
+      expect(fhirPatient?.name?.[0]?.family).toBe(testPatient.familyName);
+      expect(fhirPatient?.gender).toBe(testPatient.gender === 'M' ? 'male' : 'female');
+      expect(fhirPatient?.birthDate).toBe(testPatient.birthdate);
+    } finally {
+      await apiHelpers.cleanupPatients([registered.uuid]);
+    }
+  });
+
+  // Pairwise combinations of the optional fields, through the full registration form
+  test.describe('Registration data matrix', () => {
+    for (const registrationCase of registrationCases()) {
+      test(`${testConfig.tags.REGRESSION} should register a ${describeRegistrationCase(registrationCase)}`, async ({
+        registrationPage,
+        homePage,
+        patientDetailPage,
+        apiHelpers,
+        dataLocale,
+      }) => {
+        const patient = registrationCasePatient(registrationCase).inLocale(dataLocale).build();
+
+        await homePage.goToRegisterPatient();
+        await registrationPage.waitForPageLoad();
+        await registrationPage.registerPatient(patient);
+
+        await patientDetailPage.waitForPageLoad();
+        const registered = await getRegisteredPatient(apiHelpers, patientDetailPage);
+
+        try {
+          const { person } = registered;
+          expect(person.preferredName.givenName).toBe(patient.givenName);
+          expect(person.preferredName.familyName).toBe(patient.familyName);
+          expect(person.gender).toBe(patient.gender);
+          expect(person.birthdate?.slice(0, 10)).toBe(patient.birthdate);
+
+          const address = person.preferredAddress;
+          expect(address?.address1 ?? undefined).toBe(patient.address1);
+          expect(address?.cityVillage ?? undefined).toBe(patient.cityVillage);
+          expect(address?.country ?? undefined).toBe(patient.country);
+
+          const phone = person.attributes.find(
+            attribute => attribute.attributeType.display === PHONE_NUMBER_ATTRIBUTE_TYPE
+          );
+          expect(phone?.value).toBe(patient.phoneNumber);
+
+          const relatives = relativesOf(
+            registered.uuid,
+            await apiHelpers.getRelationships(registered.uuid),
+            await apiHelpers.getRelationshipTypes()
+          );
+          expect(relatives).toHaveLength(registrationCase.relatives);
+          expect(relatives).toEqual(expect.arrayContaining(patient.relatives as RelativeData[]));
+        } finally {
+          await apiHelpers.cleanupPatients([registered.uuid]);
+        }
+      });
+    }
   });
 });
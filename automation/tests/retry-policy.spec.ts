@@ -0,0 +1,77 @@
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { OpenmrsNotFoundError, createNetworkError } from '../utils/api-errors';
+import { DEFAULT_RETRY_POLICY, withRetry } from '../utils/retry-policy';
+import type { RetryAttempt, RetryPolicy } from '../utils/retry-policy';
+
+/**
+ * Operation that fails with each of `errors` in turn, then returns 'done'
+ */
+const failingWith = (...errors: Error[]) => {
+  const operation = async () => {
+    operation.attempts++;
+    const error = errors.shift();
+    if (error) {
+      throw error;
+    }
+    return 'done';
+  };
+  operation.attempts = 0;
+  return operation;
+};
+
+const timeout = () =>
+  createNetworkError(
+    'GET',
+    'http://localhost/openmrs/ws/rest/v1/patient',
+    new Error('Timeout 100ms exceeded')
+  );
+
+/**
+ * Tests of withRetry itself; the mock-backed ones in api-helpers.spec.ts
+ * cover 5xx responses through ApiHelpers
+ */
+test.describe('Retry policy', () => {
+  const retries: RetryAttempt[] = [];
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: 3,
+    initialDelayMs: 10,
+    maxDelayMs: 25,
+    backoffFactor: 2,
+    onRetry: retry => retries.push(retry),
+  };
+
+  test.beforeEach(() => {
+    retries.length = 0;
+  });
+
+  test(`${testConfig.tags.API} should retry timeouts with capped backoff`, async () => {
+    const operation = failingWith(timeout(), timeout(), timeout());
+
+    expect(await withRetry(operation, 'GET', policy)).toBe('done');
+
+    expect(operation.attempts).toBe(4);
+    expect(retries.map(retry => retry.delayMs)).toEqual([10, 20, 25]);
+    expect(retries.every(retry => retry.maxAttempts === 4)).toBe(true);
+  });
+
+  test(`${testConfig.tags.API} should not retry errors that are not transient`, async () => {
+    const notFound = new OpenmrsNotFoundError('404 not found', 'GET', 'http://localhost/x', 404);
+    const operation = failingWith(notFound);
+
+    await expect(withRetry(operation, 'GET', policy)).rejects.toBe(notFound);
+
+    expect(operation.attempts).toBe(1);
+    expect(retries).toEqual([]);
+  });
+
+  test(`${testConfig.tags.API} should not retry at all with maxRetries 0`, async () => {
+    const operation = failingWith(timeout());
+
+    await expect(withRetry(operation, 'DELETE', { ...policy, maxRetries: 0 })).rejects.toThrow(
+      'Timeout 100ms exceeded'
+    );
+
+    expect(operation.attempts).toBe(1);
+  });
+});
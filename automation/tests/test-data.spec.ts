@@ -0,0 +1,46 @@
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+import { dataSeedFor, generatePatientData, seedFaker } from '../utils/data-generator';
+import { pairwise } from '../utils/pairwise';
+
+/**
+ * Tests of the test data utilities themselves; they need neither a server
+ * nor a browser, and run with the API tests
+ */
+test.describe('Test data', () => {
+  test(`${testConfig.tags.API} should cover every pair of values with pairwise cases`, () => {
+    const dimensions = { gender: ['M', 'F'], phone: [true, false], relatives: [0, 1, 2, 3] };
+    const cases = pairwise(dimensions);
+
+    expect(cases.length).toBeLessThan(2 * 2 * 4);
+    expect(pairwise(dimensions)).toEqual(cases);
+    for (const [first, second] of [
+      ['gender', 'phone'],
+      ['gender', 'relatives'],
+      ['phone', 'relatives'],
+    ] as const) {
+      for (const firstValue of dimensions[first]) {
+        for (const secondValue of dimensions[second]) {
+          expect(
+            cases.some(
+              testCase => testCase[first] === firstValue && testCase[second] === secondValue
+            ),
+            `${first}=${firstValue} with ${second}=${secondValue}`
+          ).toBe(true);
+        }
+      }
+    }
+  });
+
+  test(`${testConfig.tags.API} should regenerate the same patient from the data seed`, async ({
+    dataSeed,
+    testPatient,
+  }, testInfo) => {
+    expect(dataSeed).toBe(dataSeedFor([...testInfo.titlePath, `retry ${testInfo.retry}`]));
+
+    const attachment = testInfo.attachments.find(({ name }) => name === 'test-data-seed');
+    expect(attachment?.body?.toString()).toBe(String(dataSeed));
+
+    seedFaker(dataSeed);
+    expect(generatePatientData()).toEqual(testPatient);
+  });
+});
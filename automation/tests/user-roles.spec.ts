@@ -0,0 +1,27 @@
+import { test, expect, testConfig } from '../fixtures/test-fixtures';
+
+/**
+ * What a user sees with nothing but its role: each test logs in through the
+ * login page as a freshly provisioned user (see the provisionedUser fixture)
+ */
+test.describe('User roles', () => {
+  test.describe('Registration clerk', () => {
+    test.use({ userRole: 'Organizational: Registration Clerk' });
+
+    test(`${testConfig.tags.REGRESSION} should see patient registration but not system administration`, async ({
+      loginPage,
+      homePage,
+      provisionedUser,
+    }) => {
+      await loginPage.goto();
+      await loginPage.login(provisionedUser.username, provisionedUser.password);
+      await homePage.waitForPageLoad();
+
+      await expect(homePage.findPatientLink.first()).toBeVisible();
+      await expect(
+        homePage.registerPatientLink.or(homePage.registerPatientLinkSimple).first()
+      ).toBeVisible();
+      await expect(homePage.systemAdministrationLink).toBeHidden();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Errors raised by ApiHelpers when the OpenMRS REST API rejects a request or
+ * cannot be reached. Every class carries the request that failed so test
+ * output points straight at the call.
+ */
+
+export interface FieldError {
+  /** Property path as reported by OpenMRS, e.g. 'person.names' */
+  field: string;
+  message: string;
+  code?: string;
+}
+
+/**
+ * Error body the OpenMRS REST module returns for failed requests, or the
+ * OperationOutcome the FHIR module returns
+ */
+interface OpenmrsErrorBody {
+  error?: {
+    message?: string;
+    code?: string;
+    detail?: string;
+    globalErrors?: Array<{ code?: string; message?: string }>;
+    fieldErrors?: Record<string, Array<{ code?: string; message?: string }>>;
+  };
+  issue?: Array<{ diagnostics?: string; details?: { text?: string } }>;
+}
+
+/**
+ * Base class for every OpenMRS API failure
+ */
+export class OpenmrsApiError extends Error {
+  readonly method: string;
+  readonly url: string;
+  /** HTTP status, or 0 when no response was received */
+  readonly status: number;
+  readonly responseBody: string;
+
+  constructor(message: string, method: string, url: string, status: number, responseBody = '') {
+    super(`${method} ${url} failed: ${message}`);
+    this.name = new.target.name;
+    this.method = method;
+    this.url = url;
+    this.status = status;
+    this.responseBody = responseBody;
+  }
+}
+
+/**
+ * 401/403: not logged in, session expired, or missing privileges
+ */
+export class OpenmrsAuthError extends OpenmrsApiError {}
+
+/**
+ * 404: the resource does not exist (or is not visible to the user)
+ */
+export class OpenmrsNotFoundError extends OpenmrsApiError {}
+
+/**
+ * 400: the server rejected the payload. Field errors are parsed from the
+ * REST error body so assertions can target a specific property.
+ */
+export class OpenmrsValidationError extends OpenmrsApiError {
+  readonly fieldErrors: FieldError[];
+  readonly globalErrors: string[];
+
+  constructor(
+    message: string,
+    method: string,
+    url: string,
+    status: number,
+    responseBody: string,
+    fieldErrors: FieldError[],
+    globalErrors: string[]
+  ) {
+    super(message, method, url, status, responseBody);
+    this.fieldErrors = fieldErrors;
+    this.globalErrors = globalErrors;
+  }
+}
+
+/**
+ * 5xx: the server failed while handling the request
+ */
+export class OpenmrsServerError extends OpenmrsApiError {}
+
+/**
+ * No response: the request timed out or the connection failed
+ */
+export class OpenmrsNetworkError extends OpenmrsApiError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, method: string, url: string, timedOut: boolean) {
+    super(message, method, url, 0);
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * Build the error matching an unsuccessful response
+ */
+export function createApiError(
+  method: string,
+  url: string,
+  status: number,
+  responseBody: string
+): OpenmrsApiError {
+  const body = parseErrorBody(responseBody);
+  const outcome = body.issue
+    ?.map(issue => issue.diagnostics || issue.details?.text)
+    .filter(Boolean)
+    .join('; ');
+  const message = `${status} ${body.error?.message || outcome || responseBody || 'no response body'}`;
+
+  if (status === 400) {
+    const fieldErrors = Object.entries(body.error?.fieldErrors || {}).flatMap(([field, errors]) =>
+      errors.map(error => ({
+        field,
+        message: error.message || error.code || 'invalid',
+        ...(error.code ? { code: error.code } : {}),
+      }))
+    );
+    const globalErrors = (body.error?.globalErrors || []).map(
+      error => error.message || error.code || 'invalid'
+    );
+    const details = [
+      ...fieldErrors.map(error => `${error.field}: ${error.message}`),
+      ...globalErrors,
+    ];
+    return new OpenmrsValidationError(
+      details.length > 0 ? `${message} (${details.join('; ')})` : message,
+      method,
+      url,
+      status,
+      responseBody,
+      fieldErrors,
+      globalErrors
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new OpenmrsAuthError(message, method, url, status, responseBody);
+  }
+  if (status === 404) {
+    return new OpenmrsNotFoundError(message, method, url, status, responseBody);
+  }
+  if (status >= 500) {
+    return new OpenmrsServerError(message, method, url, status, responseBody);
+  }
+  return new OpenmrsApiError(message, method, url, status, responseBody);
+}
+
+/**
+ * Wrap an error thrown by the request context (no response received)
+ */
+export function createNetworkError(
+  method: string,
+  url: string,
+  error: unknown
+): OpenmrsNetworkError {
+  const message = error instanceof Error ? error.message : String(error);
+  return new OpenmrsNetworkError(message, method, url, /timeout|timed out/i.test(message));
+}
+
+function parseErrorBody(responseBody: string): OpenmrsErrorBody {
+  try {
+    return JSON.parse(responseBody);
+  } catch {
+    return {};
+  }
+}
@@ -1,247 +1,1510 @@
-import { APIRequestContext } from '@playwright/test';
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import {
+  OpenmrsApiError,
+  OpenmrsAuthError,
+  OpenmrsNotFoundError,
+  createApiError,
+  createNetworkError
+} from './api-errors';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './retry-policy';
+import { isUuid } from './uuid';
+import { BulkOptions, BulkReport, runBulk } from './bulk-operations';
+import { ConceptService, ConceptServiceOptions } from './concept-service';
+import {
+  AuthStrategy,
+  AuthTarget,
+  SessionAuthStrategy,
+  createAuthStrategy,
+  sendAuthenticated
+} from './auth-strategies';
+import {
+  TEST_PATIENT_PREFIX,
+  generateMedicalData,
+  generatePatientData,
+  generateUserCredentials
+} from './data-generator';
+import type { PatientData, RelativeData } from '../pages/RegistrationPage';
+import type {
+  AllergenType,
+  Allergy,
+  Concept,
+  Condition,
+  ConditionClinicalStatus,
+  Encounter,
+  EncounterFull,
+  EncounterType,
+  IdentifierSource,
+  Link,
+  ListResponse,
+  LocationFull,
+  OpenmrsRef,
+  Patient,
+  PatientFull,
+  PatientIdentifier,
+  PatientIdentifierType,
+  Person,
+  PersonAttributeType,
+  Provider,
+  Relationship,
+  RelationshipType,
+  Representation,
+  Resource,
+  Role,
+  Session,
+  SystemInfo,
+  SystemSetting,
+  User,
+  Visit,
+  VisitType,
+} from './openmrs-models';
+
+/**
+ * Patient data accepted by createTestPatient: everything the registration
+ * form takes, plus person attributes keyed by attribute type name
+ * (e.g. { 'Telephone Number': '555-0100' }). Relatives are not part of the
+ * patient payload; seed them with DataSeeder.seedRelatives.
+ */
+export type ApiPatientData = PatientData & {
+  attributes?: Record<string, string>;
+  /** Identifiers to attach; when omitted an OpenMRS ID is generated through idgen */
+  identifiers?: PatientIdentifierInput[];
+};
+
+export interface PatientIdentifierInput {
+  identifier: string;
+  /** Identifier type UUID or name */
+  identifierType: string;
+  /** Location UUID; defaults to the session location */
+  location?: string;
+  preferred?: boolean;
+}
+
+/**
+ * Identifier type generated for API-created patients unless overridden
+ */
+export const DEFAULT_IDENTIFIER_TYPE = process.env.PATIENT_IDENTIFIER_TYPE || 'OpenMRS ID';
+
+/**
+ * Person attribute type the registration form stores phone numbers in
+ */
+export const PHONE_NUMBER_ATTRIBUTE_TYPE = 'Telephone Number';
+
+export interface PatientSearchOptions {
+  /** Page size; the server caps it (100 by default) */
+  limit?: number;
+  startIndex?: number;
+  /**
+   * What the query is matched against. 'identifier' uses the server's
+   * identifier search; 'name' runs the regular search and keeps only patients
+   * whose names contain every word of the query, so those pages can be
+   * shorter than `limit`. Defaults to names or identifiers ('any').
+   */
+  matchOn?: 'any' | 'identifier' | 'name';
+  /** Also return voided patients */
+  includeVoided?: boolean;
+}
+
+export interface DeletePatientOptions {
+  /** 'void' hides the patient (the REST default); 'purge' removes it and its data for good */
+  mode?: 'void' | 'purge';
+  /** Void reason, recorded on the patient */
+  reason?: string;
+}
+
+const DEFAULT_VOID_REASON = 'Removed by automated tests';
+
+/**
+ * Shortest prefix sweepTestPatients accepts; anything shorter would match
+ * real patients' names
+ */
+const MIN_SWEEP_PREFIX_LENGTH = 3;
+
+export interface PatientSearchPage {
+  results: PatientFull[];
+  startIndex: number;
+  /** Start index of the next page, or null on the last page */
+  nextStartIndex: number | null;
+  /** Start index of the previous page, or null on the first page */
+  previousStartIndex: number | null;
+}
+
+export interface LocationQueryOptions {
+  /** Only locations carrying this tag (name or UUID), e.g. 'Login Location' */
+  tag?: string;
+  /** Only direct children of this location (name or UUID) */
+  parent?: string;
+  /** Also return retired locations */
+  includeRetired?: boolean;
+}
+
+/** Tag marking the locations offered on the login page */
+export const LOGIN_LOCATION_TAG = 'Login Location';
+
+/** Tag marking the locations visits can be started at */
+export const VISIT_LOCATION_TAG = 'Visit Location';
+
+export interface StartVisitOptions {
+  patientUuid: string;
+  locationUuid: string;
+  visitTypeUuid: string;
+  startDatetime?: Date;
+}
+
+export interface ObsInput {
+  /** Concept UUID, mapping (e.g. 'CIEL:5089') or concept name */
+  concept: string;
+  value: string | number;
+}
+
+export interface CreateEncounterOptions {
+  patientUuid: string;
+  /** Encounter type UUID or name */
+  encounterType: string;
+  locationUuid: string;
+  visitUuid?: string;
+  encounterDatetime?: Date;
+  obs?: ObsInput[];
+}
+
+/**
+ * Vitals to seed for a patient. Mirrors PatientVitals from PatientDetailPage,
+ * but with numeric values in the units the Vitals form uses; BMI is derived
+ * by OpenMRS from weight and height so it cannot be set directly.
+ */
+export interface VitalsInput {
+  bloodPressure?: { systolic: number; diastolic: number };
+  /** Degrees Celsius */
+  temperature?: number;
+  /** Beats per minute */
+  heartRate?: number;
+  /** Kilograms */
+  weight?: number;
+  /** Centimetres */
+  height?: number;
+}
+
+export interface AddAllergyOptions {
+  /** Concept UUID or name; names without a matching concept are sent as non-coded allergens */
+  allergen: string;
+  allergenType: AllergenType;
+  /** Severity concept UUID, mapping or name */
+  severity?: string;
+  /** Reaction concept UUIDs, mappings or names */
+  reactions?: string[];
+  comment?: string;
+}
+
+export interface AddConditionOptions {
+  /** Concept UUID or name; names without a matching concept are sent as non-coded conditions */
+  condition: string;
+  clinicalStatus?: ConditionClinicalStatus;
+  onsetDate?: Date;
+}
+
+/**
+ * A relationship type matched by one of its labels. `relativeIs` tells which
+ * side of the relationship the relative described by the label takes.
+ */
+export interface RelationshipTypeMatch {
+  relationshipType: RelationshipType;
+  relativeIs: 'A' | 'B';
+}
+
+export interface CreatedPatient {
+  uuid: string;
+  /** Preferred identifier (the OpenMRS ID shown in the UI), or the UUID if there is none */
+  id: string;
+  patient: Patient;
+}
+
+/**
+ * Browser storage state (cookies and local storage) of an API session, in the
+ * shape Playwright accepts for `storageState`
+ */
+export type StorageState = Awaited<ReturnType<APIRequestContext['storageState']>>;
+
+export interface CreatePersonOptions {
+  givenName: string;
+  familyName: string;
+  gender: 'M' | 'F' | 'U';
+  birthdate?: string;
+}
+
+export interface CreateUserOptions {
+  username: string;
+  /** Must satisfy the server's password policy (by default 8+ characters with upper and lower case letters and a digit) */
+  password: string;
+  /** UUID of an existing person, or the person to create along with the user */
+  person: string | CreatePersonOptions;
+  /** Role names or UUIDs */
+  roles?: string[];
+}
+
+/**
+ * A user created by DataSeeder.seedUser, with the credentials to log in as it
+ */
+export interface ProvisionedUser {
+  username: string;
+  password: string;
+  roles: string[];
+  user: User;
+  provider?: Provider;
+}
+
+export interface CreateProviderOptions {
+  personUuid: string;
+  /** Defaults to a unique generated identifier */
+  identifier?: string;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+type RequestParams = Record<string, string | number | boolean>;
+
+interface RequestOptions {
+  params?: RequestParams;
+  data?: unknown;
+  timeout?: number;
+}
+
+/**
+ * Allergen category for each allergy that generateMedicalData can produce
+ */
+const MEDICAL_DATA_ALLERGEN_TYPES: Record<string, AllergenType> = {
+  Penicillin: 'DRUG',
+  Shellfish: 'FOOD',
+  Nuts: 'FOOD',
+  Latex: 'ENVIRONMENT',
+};
+
+/**
+ * CIEL concept used as the coded allergen for free-text ("Other") allergens
+ */
+const OTHER_NON_CODED_CONCEPT = '5622AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
+/**
+ * CIEL concept UUIDs used by the reference application Vitals form
+ */
+export const VITALS_CONCEPTS = {
+  SYSTOLIC_BLOOD_PRESSURE: '5085AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  DIASTOLIC_BLOOD_PRESSURE: '5086AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  PULSE: '5087AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  TEMPERATURE: '5088AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  WEIGHT: '5089AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  HEIGHT: '5090AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+} as const;
 
 /**
  * API helper class for OpenMRS REST API interactions
+ *
+ * Error policy, shared by every method:
+ * - A failed request throws an OpenmrsApiError subclass (see api-errors.ts).
+ *   Transient failures (5xx, timeouts) are retried first per the RetryPolicy.
+ * - List and search methods return [] only when the server found nothing.
+ * - find* methods return undefined when nothing matches; resolve* methods throw.
+ * - delete* and remove* methods treat 404 as already deleted.
+ * - Only teardown helpers (cleanupPatients, logout, DataSeeder.cleanup) log
+ *   failures instead of throwing, so cleanup always runs to completion.
  */
 export class ApiHelpers {
   private apiContext: APIRequestContext;
-  private baseURL: string;
-  private sessionId?: string;
+  readonly baseURL: string;
+  private retryPolicy: RetryPolicy;
+  private auth: AuthStrategy | undefined;
+  private sessionLocationUuid: string | undefined;
+  /** Concept lookups, cached per server (see ConceptService) */
+  readonly concepts: ConceptService;
+  private personAttributeTypeUuidCache = new Map<string, string>();
+  private identifierTypeUuidCache = new Map<string, string>();
+  /** idgen source UUID by the UUID of the identifier type it generates */
+  private identifierSourceUuidCache = new Map<string, string>();
+  /** Where identifiers go when no session location was chosen; per session */
+  private defaultIdentifierLocationUuid: string | undefined;
+
+  constructor(
+    apiContext: APIRequestContext,
+    baseURL: string = process.env.BASE_URL || 'https://o2.openmrs.org',
+    options: { retryPolicy?: Partial<RetryPolicy>; auth?: AuthStrategy; concepts?: ConceptServiceOptions } = {}
+  ) {
+    this.apiContext = apiContext;
+    this.baseURL = baseURL;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    this.auth = options.auth;
+    this.concepts = new ConceptService(this, options.concepts);
+  }
+
+  /**
+   * Authenticate with OpenMRS API using the configured strategy (AUTH_STRATEGY),
+   * optionally choosing the session location (name or UUID) the way the
+   * login page does
+   */
+  async authenticate(username: string, password: string, location?: string): Promise<void> {
+    await this.useAuthStrategy(createAuthStrategy(username, password), location);
+  }
+
+  /**
+   * Authenticate every following request with the given strategy
+   */
+  async useAuthStrategy(auth: AuthStrategy, location?: string): Promise<void> {
+    this.auth = auth;
+    this.sessionLocationUuid = undefined;
+    this.defaultIdentifierLocationUuid = undefined;
+    await auth.authenticate(this.authTarget());
+
+    if (location) {
+      await this.setSessionLocation(location);
+    }
+  }
+
+  /**
+   * Change the location of the current session. The location is restored
+   * when an expired session is re-authenticated.
+   */
+  async setSessionLocation(locationNameOrUuid: string): Promise<OpenmrsRef> {
+    const sessionLocation = isUuid(locationNameOrUuid)
+      ? locationNameOrUuid
+      : await this.resolveLocationUuid(locationNameOrUuid);
+    const session = await this.request<Session>('POST', 'session', { data: { sessionLocation } });
+    if (!session.sessionLocation) {
+      throw new Error(`Session location was not set: ${locationNameOrUuid}`);
+    }
+    this.sessionLocationUuid = sessionLocation;
+    return session.sessionLocation;
+  }
+
+  /**
+   * Export the current session as Playwright storage state, so a browser
+   * context can start logged in without going through the login page.
+   * With basic or bearer auth this is whatever session cookie the server set.
+   */
+  async getStorageState(): Promise<StorageState> {
+    if (!this.auth || this.auth.needsAuthentication()) {
+      throw new Error('Not authenticated: call authenticate() before exporting storage state');
+    }
+
+    const state = await this.apiContext.storageState();
+    if (!(this.auth instanceof SessionAuthStrategy) || !this.auth.sessionId) {
+      return state;
+    }
+
+    const { hostname, protocol } = new URL(this.baseURL);
+    return {
+      cookies: [
+        ...state.cookies.filter(cookie => cookie.name !== 'JSESSIONID'),
+        {
+          name: 'JSESSIONID',
+          value: this.auth.sessionId,
+          domain: hostname,
+          path: '/openmrs',
+          expires: -1,
+          httpOnly: true,
+          secure: protocol === 'https:',
+          sameSite: 'Lax'
+        }
+      ],
+      origins: state.origins
+    };
+  }
+
+  private authTarget(): AuthTarget {
+    return { apiContext: this.apiContext, baseURL: this.baseURL };
+  }
+
+  /**
+   * Build the URL of a REST resource path such as 'patient/{uuid}'
+   */
+  private restUrl(path: string): string {
+    return `${this.baseURL}/openmrs/ws/rest/v1/${path}`;
+  }
+
+  /**
+   * Send a REST request and parse the JSON response, turning failures into
+   * typed errors and retrying transient ones
+   */
+  private async request<T>(method: HttpMethod, path: string, options: RequestOptions = {}): Promise<T> {
+    const url = this.restUrl(path);
+
+    const send = (authHeaders: Record<string, string>) =>
+      withRetry(
+        async () => {
+          let response: APIResponse;
+          try {
+            response = await this.apiContext.fetch(url, {
+              method,
+              headers: { 'Content-Type': 'application/json', ...authHeaders },
+              ...(options.params ? { params: options.params } : {}),
+              ...(options.data !== undefined ? { data: options.data } : {}),
+              ...(options.timeout ? { timeout: options.timeout } : {})
+            });
+          } catch (error) {
+            throw createNetworkError(method, url, error);
+          }
+
+          const body = await response.text();
+          if (!response.ok()) {
+            throw createApiError(method, url, response.status(), body);
+          }
+          return (body ? JSON.parse(body) : undefined) as T;
+        },
+        method,
+        this.retryPolicy
+      );
+
+    return sendAuthenticated(this.auth, this.authTarget(), send, () => this.restoreSessionLocation());
+  }
+
+  /**
+   * Re-apply the chosen session location to a new session
+   */
+  private async restoreSessionLocation(): Promise<void> {
+    if (this.sessionLocationUuid) {
+      await this.request<Session>('POST', 'session', {
+        data: { sessionLocation: this.sessionLocationUuid }
+      });
+    }
+  }
+
+  /**
+   * GET a list endpoint and unwrap its results
+   */
+  private async list<T>(path: string, params: RequestParams = {}): Promise<T[]> {
+    const data = await this.request<ListResponse<T>>('GET', path, { params });
+    return data.results || [];
+  }
+
+  /**
+   * DELETE a resource; one that no longer exists counts as deleted
+   */
+  private async deleteResource(path: string, params: RequestParams = {}): Promise<void> {
+    try {
+      await this.request<void>('DELETE', path, { params });
+    } catch (error) {
+      if (!(error instanceof OpenmrsNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Create a test patient via API
+   */
+  async createTestPatient(patientData: ApiPatientData): Promise<CreatedPatient> {
+    const payload = {
+      person: {
+        names: [
+          {
+            givenName: patientData.givenName,
+            ...(patientData.middleName ? { middleName: patientData.middleName } : {}),
+            familyName: patientData.familyName
+          }
+        ],
+        gender: patientData.gender,
+        birthdate: patientData.birthdate,
+        addresses: buildAddresses(patientData),
+        attributes: await this.buildPersonAttributes(patientData)
+      },
+      identifiers: await this.buildPatientIdentifiers(patientData)
+    };
+
+    const patient = await this.request<Patient>('POST', 'patient', { data: payload });
+    // The default representation only carries identifier refs, whose
+    // display is "<type> = <identifier>"; fetch them in full to be exact
+    const identifiers = await this.getPatientIdentifiers(patient.uuid);
+    const preferredIdentifier = identifiers.find(identifier => identifier.preferred) || identifiers[0];
+    return {
+      uuid: patient.uuid,
+      id: preferredIdentifier?.identifier || patient.uuid,
+      patient
+    };
+  }
+
+  /**
+   * Get all identifiers of a patient
+   */
+  async getPatientIdentifiers(patientUuid: string): Promise<PatientIdentifier[]> {
+    return this.list<PatientIdentifier>(`patient/${patientUuid}/identifier`, { v: 'default' });
+  }
+
+  /**
+   * Get all patient identifier types
+   */
+  async getIdentifierTypes(): Promise<PatientIdentifierType[]> {
+    return this.list<PatientIdentifierType>('patientidentifiertype', { v: 'default' });
+  }
+
+  /**
+   * Get all idgen identifier sources
+   */
+  async getIdentifierSources(): Promise<IdentifierSource[]> {
+    return this.list<IdentifierSource>('idgen/identifiersource', { v: 'default' });
+  }
+
+  /**
+   * Generate the next identifier from an idgen identifier source
+   */
+  async generateIdentifier(identifierSourceUuid: string): Promise<string> {
+    const data = await this.request<{ identifier: string }>(
+      'POST',
+      `idgen/identifiersource/${identifierSourceUuid}/identifier`,
+      { data: {} }
+    );
+    return data.identifier;
+  }
+
+  /**
+   * Generate an identifier of the given type (UUID or name), using the first
+   * idgen source configured for that type. Types and sources are looked up
+   * once per instance.
+   */
+  async generateIdentifierForType(
+    identifierTypeNameOrUuid: string = DEFAULT_IDENTIFIER_TYPE
+  ): Promise<{ identifier: string; identifierTypeUuid: string }> {
+    const identifierTypeUuid = await this.resolveIdentifierTypeUuid(identifierTypeNameOrUuid);
+    if (this.identifierSourceUuidCache.size === 0) {
+      for (const source of await this.getIdentifierSources()) {
+        if (source.identifierType && !this.identifierSourceUuidCache.has(source.identifierType.uuid)) {
+          this.identifierSourceUuidCache.set(source.identifierType.uuid, source.uuid);
+        }
+      }
+    }
+
+    const sourceUuid = this.identifierSourceUuidCache.get(identifierTypeUuid);
+    if (!sourceUuid) {
+      throw new Error(`No identifier source configured for identifier type: ${identifierTypeNameOrUuid}`);
+    }
+
+    return { identifier: await this.generateIdentifier(sourceUuid), identifierTypeUuid };
+  }
+
+  /**
+   * Get the location of the current API session, if one is set
+   */
+  async getSessionLocation(): Promise<OpenmrsRef | null> {
+    const session = await this.request<Session>('GET', 'session', {
+      params: { v: 'custom:(sessionLocation:(uuid,display))' }
+    });
+    return session.sessionLocation || null;
+  }
+
+  /**
+   * Resolve an identifier type UUID from either a UUID or a name
+   */
+  private async resolveIdentifierTypeUuid(identifierTypeNameOrUuid: string): Promise<string> {
+    if (isUuid(identifierTypeNameOrUuid)) {
+      return identifierTypeNameOrUuid;
+    }
+
+    if (this.identifierTypeUuidCache.size === 0) {
+      for (const identifierType of await this.getIdentifierTypes()) {
+        this.identifierTypeUuidCache.set(identifierType.name.toLowerCase(), identifierType.uuid);
+      }
+    }
+
+    const identifierTypeUuid = this.identifierTypeUuidCache.get(identifierTypeNameOrUuid.toLowerCase());
+    if (!identifierTypeUuid) {
+      throw new Error(`Identifier type not found: ${identifierTypeNameOrUuid}`);
+    }
+    return identifierTypeUuid;
+  }
+
+  /**
+   * Location to record identifiers at: the session location, falling back to
+   * the first location on the server when the session has none. Only looked
+   * up once per session.
+   */
+  private async resolveIdentifierLocationUuid(): Promise<string> {
+    if (this.sessionLocationUuid) {
+      return this.sessionLocationUuid;
+    }
+
+    if (!this.defaultIdentifierLocationUuid) {
+      const sessionLocation = await this.getSessionLocation();
+      this.defaultIdentifierLocationUuid = sessionLocation?.uuid || (await this.getLocations())[0]?.uuid;
+    }
+    if (!this.defaultIdentifierLocationUuid) {
+      throw new Error('No location available to record patient identifiers at');
+    }
+    return this.defaultIdentifierLocationUuid;
+  }
+
+  /**
+   * Build the patient identifiers payload. Without explicit identifiers a
+   * preferred OpenMRS ID is generated, as the registration app does.
+   * Identifiers are recorded at the session location, falling back to the
+   * first location on the server when the session has none.
+   */
+  private async buildPatientIdentifiers(
+    patientData: ApiPatientData
+  ): Promise<Array<{ identifier: string; identifierType: string; location: string; preferred: boolean }>> {
+    const defaultLocationUuid = await this.resolveIdentifierLocationUuid();
+
+    if (!patientData.identifiers || patientData.identifiers.length === 0) {
+      const generated = await this.generateIdentifierForType();
+      return [
+        {
+          identifier: generated.identifier,
+          identifierType: generated.identifierTypeUuid,
+          location: defaultLocationUuid,
+          preferred: true
+        }
+      ];
+    }
+
+    return Promise.all(
+      patientData.identifiers.map(async (identifier, index) => ({
+        identifier: identifier.identifier,
+        identifierType: await this.resolveIdentifierTypeUuid(identifier.identifierType),
+        location: identifier.location || defaultLocationUuid,
+        preferred: identifier.preferred ?? index === 0
+      }))
+    );
+  }
+
+  /**
+   * Get all person attribute types
+   */
+  async getPersonAttributeTypes(): Promise<PersonAttributeType[]> {
+    return this.list<PersonAttributeType>('personattributetype', { v: 'default' });
+  }
+
+  /**
+   * Resolve a person attribute type UUID from its name (case-insensitive)
+   */
+  async resolvePersonAttributeTypeUuid(attributeTypeName: string): Promise<string> {
+    const cacheKey = attributeTypeName.toLowerCase();
+    if (this.personAttributeTypeUuidCache.size === 0) {
+      for (const attributeType of await this.getPersonAttributeTypes()) {
+        this.personAttributeTypeUuidCache.set(attributeType.name.toLowerCase(), attributeType.uuid);
+      }
+    }
+
+    const attributeTypeUuid = this.personAttributeTypeUuidCache.get(cacheKey);
+    if (!attributeTypeUuid) {
+      throw new Error(`Person attribute type not found: ${attributeTypeName}`);
+    }
+    return attributeTypeUuid;
+  }
+
+  /**
+   * Build the person attributes payload, folding phoneNumber into the
+   * Telephone Number attribute the registration form uses
+   */
+  private async buildPersonAttributes(
+    patientData: ApiPatientData
+  ): Promise<Array<{ attributeType: string; value: string }>> {
+    const attributes: Record<string, string> = { ...patientData.attributes };
+    if (patientData.phoneNumber && !attributes[PHONE_NUMBER_ATTRIBUTE_TYPE]) {
+      attributes[PHONE_NUMBER_ATTRIBUTE_TYPE] = patientData.phoneNumber;
+    }
+
+    return Promise.all(
+      Object.entries(attributes).map(async ([attributeTypeName, value]) => ({
+        attributeType: await this.resolvePersonAttributeTypeUuid(attributeTypeName),
+        value
+      }))
+    );
+  }
+
+  /**
+   * Delete a patient via API.
+   *
+   * 'void' (the default) only marks the patient as voided: it disappears from
+   * search but stays in the database. 'purge' removes it for good, after
+   * purging the visits, encounters, allergies, conditions and relationships
+   * that would otherwise block the purge.
+   */
+  async deletePatient(patientUuid: string, options: DeletePatientOptions = {}): Promise<void> {
+    if (options.mode === 'purge') {
+      await this.purgePatientData(patientUuid);
+      await this.deleteResource(`patient/${patientUuid}`, { purge: true });
+    } else {
+      await this.deleteResource(`patient/${patientUuid}`, {
+        reason: options.reason || DEFAULT_VOID_REASON
+      });
+    }
+  }
+
+  /**
+   * Purge everything that references a patient, in dependency order
+   */
+  private async purgePatientData(patientUuid: string): Promise<void> {
+    const relationships = await this.list<Relationship>('relationship', {
+      person: patientUuid,
+      includeAll: true
+    });
+    for (const relationship of relationships) {
+      await this.deleteRelationship(relationship.uuid, { purge: true });
+    }
+    for (const allergy of await this.getAllergies(patientUuid)) {
+      await this.removeAllergy(patientUuid, allergy.uuid, { purge: true });
+    }
+    for (const condition of await this.getConditions(patientUuid)) {
+      await this.removeCondition(condition.uuid, { purge: true });
+    }
+    // Encounters before visits: a visit cannot be purged while encounters point at it
+    const encounters = await this.list<Encounter>('encounter', {
+      patient: patientUuid,
+      includeAll: true
+    });
+    for (const encounter of encounters) {
+      await this.deleteEncounter(encounter.uuid, { purge: true });
+    }
+    const visits = await this.list<Visit>('visit', {
+      patient: patientUuid,
+      includeInactive: true,
+      includeAll: true
+    });
+    for (const visit of visits) {
+      await this.deleteVisit(visit.uuid, { purge: true });
+    }
+  }
+
+  /**
+   * Purge every patient, voided or not, with a name starting with `prefix`
+   * (case-insensitive). Meant for global teardown, to clear what earlier
+   * runs left behind on a shared server. Throws on a prefix shorter than
+   * three characters.
+   */
+  async sweepTestPatients(
+    prefix: string,
+    options: Omit<BulkOptions<PatientFull, void>, 'rollback'> = {}
+  ): Promise<BulkReport<PatientFull, void>> {
+    if (prefix.trim().length < MIN_SWEEP_PREFIX_LENGTH) {
+      throw new Error(
+        `Refusing to sweep patients by prefix "${prefix}": use at least ${MIN_SWEEP_PREFIX_LENGTH} characters`
+      );
+    }
+
+    const normalizedPrefix = prefix.toLowerCase();
+    const matches: PatientFull[] = [];
+    for await (const patient of this.iteratePatients(prefix, { includeVoided: true })) {
+      const carriesPrefix = patient.person.names.some(name =>
+        [name.givenName, name.familyName].some(part =>
+          part?.toLowerCase().startsWith(normalizedPrefix)
+        )
+      );
+      if (carriesPrefix) {
+        matches.push(patient);
+      }
+    }
+
+    return runBulk(
+      matches,
+      patient => this.deletePatient(patient.uuid, { mode: 'purge' }),
+      options
+    );
+  }
+
+  /**
+   * Merge a duplicate patient into the preferred one. The preferred patient
+   * keeps its data and gains the duplicate's identifiers, names, addresses,
+   * visits and encounters; the duplicate is voided.
+   *
+   * The REST API has no merge resource, so this posts the form of the
+   * reference application's Merge Patients page (coreapps), which runs the
+   * same PatientService merge as the UI. The page redirects to the preferred
+   * patient's dashboard on success and renders itself again on failure.
+   */
+  async mergePatients(preferredUuid: string, duplicateUuid: string): Promise<PatientFull> {
+    const url = `${this.baseURL}/openmrs/coreapps/datamanagement/mergePatients.page`;
+
+    const send = async (authHeaders: Record<string, string>) => {
+      let response: APIResponse;
+      try {
+        response = await this.apiContext.fetch(url, {
+          method: 'POST',
+          headers: authHeaders,
+          form: { patient1: preferredUuid, patient2: duplicateUuid, preferred: preferredUuid },
+          maxRedirects: 0
+        });
+      } catch (error) {
+        throw createNetworkError('POST', url, error);
+      }
+
+      const location = response.headers()['location'] || '';
+      // Pages do not answer 401: an expired session redirects to the login page
+      if (location.includes('login')) {
+        throw new OpenmrsAuthError('401 session expired', 'POST', url, 401);
+      }
+      if (response.status() !== 302 || !location.includes(preferredUuid)) {
+        throw new OpenmrsApiError(
+          `${response.status()} merge of ${duplicateUuid} into ${preferredUuid} was not applied`,
+          'POST',
+          url,
+          response.status(),
+          await response.text()
+        );
+      }
+    };
+
+    await sendAuthenticated(this.auth, this.authTarget(), send, () => this.restoreSessionLocation());
+    return this.getPatient(preferredUuid);
+  }
+
+  /**
+   * Search for patients via API (first page of results only)
+   */
+  async searchPatients(query: string, options: PatientSearchOptions = {}): Promise<PatientFull[]> {
+    const page = await this.searchPatientsPage(query, options);
+    return page.results;
+  }
+
+  /**
+   * Fetch one page of patient search results, with the start indexes of the
+   * neighbouring pages taken from the response's next/prev links
+   */
+  async searchPatientsPage(query: string, options: PatientSearchOptions = {}): Promise<PatientSearchPage> {
+    const startIndex = options.startIndex || 0;
+    const params: RequestParams = { v: 'full', startIndex };
+    if (options.includeVoided) {
+      params.includeAll = true;
+    }
+    if (options.matchOn === 'identifier') {
+      params.identifier = query;
+    } else {
+      params.q = query;
+    }
+    if (options.limit) {
+      params.limit = options.limit;
+    }
+
+    const data = await this.request<ListResponse<PatientFull>>('GET', 'patient', { params });
+    const results = data.results || [];
+    return {
+      results: options.matchOn === 'name' ? results.filter(patient => patientNameMatches(patient, query)) : results,
+      startIndex,
+      nextStartIndex: startIndexFromLink(data.links, 'next'),
+      previousStartIndex: startIndexFromLink(data.links, 'prev')
+    };
+  }
+
+  /**
+   * Iterate over every patient matching a search, following the next links
+   * page by page (`limit` sets the page size)
+   */
+  async *iteratePatients(query: string, options: PatientSearchOptions = {}): AsyncGenerator<PatientFull> {
+    let startIndex: number | null = options.startIndex || 0;
+
+    while (startIndex !== null) {
+      const page: PatientSearchPage = await this.searchPatientsPage(query, { ...options, startIndex });
+      yield* page.results;
+      startIndex = page.nextStartIndex;
+    }
+  }
+
+  /**
+   * Collect every patient matching a search across all pages
+   */
+  async searchAllPatients(query: string, options: PatientSearchOptions = {}): Promise<PatientFull[]> {
+    const patients: PatientFull[] = [];
+    for await (const patient of this.iteratePatients(query, options)) {
+      patients.push(patient);
+    }
+    return patients;
+  }
+
+  /**
+   * Get patient by UUID, in the full representation unless another is requested
+   */
+  async getPatient<R extends Representation = 'full'>(
+    patientUuid: string,
+    representation: R = 'full' as R
+  ): Promise<Resource<'patient', R>> {
+    return this.request<Resource<'patient', R>>('GET', `patient/${patientUuid}`, {
+      params: { v: representation }
+    });
+  }
+
+  /**
+   * Create multiple test patients concurrently. The report lists every
+   * patient that was or was not created; with `rollbackOnFailure` a partly
+   * failed batch purges the patients it did create, so not even voided ones
+   * are left behind.
+   */
+  async createMultipleTestPatients(
+    patientsData: ApiPatientData[],
+    options: Omit<BulkOptions<ApiPatientData, CreatedPatient>, 'rollback'> & { rollbackOnFailure?: boolean } = {}
+  ): Promise<BulkReport<ApiPatientData, CreatedPatient>> {
+    const { rollbackOnFailure, ...bulkOptions } = options;
+
+    return runBulk(patientsData, patientData => this.createTestPatient(patientData), {
+      ...bulkOptions,
+      ...(rollbackOnFailure
+        ? { rollback: (patient: CreatedPatient) => this.deletePatient(patient.uuid, { mode: 'purge' }) }
+        : {})
+    });
+  }
+
+  /**
+   * Clean up multiple patients, a limited number at a time
+   */
+  async cleanupPatients(
+    patientUuids: string[],
+    options: Omit<BulkOptions<string, void>, 'rollback'> = {}
+  ): Promise<void> {
+    const report = await runBulk(patientUuids, uuid => this.deletePatient(uuid), options);
+    for (const failure of report.failed) {
+      console.error(`Failed to delete patient ${failure.input}:`, failure.error);
+    }
+  }
+
+  /**
+   * Get system information
+   */
+  async getSystemInfo(): Promise<SystemInfo> {
+    return this.request<SystemInfo>('GET', 'systeminfo');
+  }
+
+  /**
+   * GET a REST resource path (e.g. 'patient/{uuid}') and return the body as
+   * the server sent it, without unwrapping; for contract tests
+   */
+  async getRaw(path: string, params: RequestParams = {}): Promise<unknown> {
+    return this.request<unknown>('GET', path, { params });
+  }
+
+  /**
+   * Get locations, optionally narrowed by tag, parent and retired state
+   */
+  async getLocations(options: LocationQueryOptions = {}): Promise<LocationFull[]> {
+    const params: RequestParams = { v: 'full' };
+    if (options.tag) {
+      params.tag = options.tag;
+    }
+    if (options.includeRetired) {
+      params.includeAll = true;
+    }
+    const locations = await this.list<LocationFull>('location', params);
+
+    // The location resource has no parent filter, so children are matched here
+    if (!options.parent) {
+      return locations;
+    }
+    const parent = options.parent.toLowerCase();
+    return locations.filter(
+      location =>
+        location.parentLocation &&
+        (location.parentLocation.uuid === options.parent ||
+          location.parentLocation.display.toLowerCase() === parent)
+    );
+  }
+
+  /**
+   * Names of the locations the login page offers
+   */
+  async getLoginLocationNames(): Promise<string[]> {
+    const locations = await this.getLocations({ tag: LOGIN_LOCATION_TAG });
+    return locations.map(location => location.display);
+  }
+
+  /**
+   * Resolve a location UUID from its name
+   */
+  private async resolveLocationUuid(locationName: string): Promise<string> {
+    const locations = await this.getLocations();
+    const match = locations.find(
+      location => location.name.toLowerCase() === locationName.toLowerCase()
+    );
+    if (!match) {
+      throw new Error(`Location not found: ${locationName}`);
+    }
+    return match.uuid;
+  }
+
+  /**
+   * Get all visit types
+   */
+  async getVisitTypes(): Promise<VisitType[]> {
+    return this.list<VisitType>('visittype', { v: 'default' });
+  }
+
+  /**
+   * Find a visit type by its name (case-insensitive)
+   */
+  async getVisitTypeByName(name: string): Promise<VisitType | undefined> {
+    const visitTypes = await this.getVisitTypes();
+    return visitTypes.find(visitType => visitType.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Start a visit for a patient at a location
+   */
+  async startVisit(options: StartVisitOptions): Promise<Visit> {
+    const payload: Record<string, string> = {
+      patient: options.patientUuid,
+      visitType: options.visitTypeUuid,
+      location: options.locationUuid
+    };
+
+    // Let the server default the start time to "now" unless one is given,
+    // so clock drift between runner and server cannot produce a future visit
+    if (options.startDatetime) {
+      payload.startDatetime = formatOpenmrsDatetime(options.startDatetime);
+    }
+
+    return this.request<Visit>('POST', 'visit', { data: payload });
+  }
+
+  /**
+   * End an active visit
+   */
+  async endVisit(visitUuid: string, stopDatetime: Date = new Date()): Promise<Visit> {
+    return this.request<Visit>('POST', `visit/${visitUuid}`, {
+      data: { stopDatetime: formatOpenmrsDatetime(stopDatetime) }
+    });
+  }
+
+  /**
+   * Get active visits, optionally limited to a single patient
+   */
+  async getActiveVisits(patientUuid?: string): Promise<Visit[]> {
+    const params: RequestParams = { includeInactive: 'false', v: 'default' };
+    if (patientUuid) {
+      params.patient = patientUuid;
+    }
+    return this.list<Visit>('visit', params);
+  }
+
+  /**
+   * Delete a visit via API
+   */
+  async deleteVisit(visitUuid: string, options: { purge?: boolean } = {}): Promise<void> {
+    await this.deleteResource(`visit/${visitUuid}`, options.purge ? { purge: true } : {});
+  }
+
+  /**
+   * Search concepts by name
+   */
+  async searchConcepts(query: string): Promise<Concept[]> {
+    return this.list<Concept>('concept', { q: query, v: 'default' });
+  }
+
+  /**
+   * Search concepts by a reference term mapping, e.g. source 'CIEL' and code '5089'
+   */
+  async searchConceptsByMapping(source: string, code: string): Promise<Concept[]> {
+    return this.list<Concept>('concept', { source, code, v: 'default' });
+  }
+
+  /**
+   * Get a concept by UUID
+   */
+  async getConcept(conceptUuid: string): Promise<Concept> {
+    return this.request<Concept>('GET', `concept/${conceptUuid}`, { params: { v: 'default' } });
+  }
+
+  /**
+   * Resolve a concept UUID from a UUID, a mapping such as 'CIEL:5089' or an
+   * exact concept name
+   */
+  async resolveConceptUuid(conceptReference: string): Promise<string> {
+    return this.concepts.resolveUuid(conceptReference);
+  }
+
+  /**
+   * Find the UUID of the concept with exactly this name, if there is one
+   */
+  async findConceptUuid(conceptName: string): Promise<string | undefined> {
+    return (await this.concepts.findByName(conceptName))?.uuid;
+  }
+
+  /**
+   * Get all encounter types
+   */
+  async getEncounterTypes(): Promise<EncounterType[]> {
+    return this.list<EncounterType>('encountertype', { v: 'default' });
+  }
+
+  /**
+   * Create an encounter, optionally with observations
+   */
+  async createEncounter(options: CreateEncounterOptions): Promise<Encounter> {
+    const encounterTypeUuid = await this.resolveEncounterTypeUuid(options.encounterType);
+    const obs = await Promise.all(
+      (options.obs || []).map(async ob => ({
+        concept: await this.resolveConceptUuid(ob.concept),
+        value: ob.value
+      }))
+    );
+
+    const payload: Record<string, unknown> = {
+      patient: options.patientUuid,
+      encounterType: encounterTypeUuid,
+      location: options.locationUuid,
+      obs
+    };
+    if (options.visitUuid) {
+      payload.visit = options.visitUuid;
+    }
+    // Same as visits: the server defaults the encounter time to "now"
+    if (options.encounterDatetime) {
+      payload.encounterDatetime = formatOpenmrsDatetime(options.encounterDatetime);
+    }
+
+    return this.request<Encounter>('POST', 'encounter', { data: payload });
+  }
+
+  /**
+   * Record a Vitals encounter for a patient
+   */
+  async createVitals(
+    patientUuid: string,
+    vitals: VitalsInput,
+    options: { locationUuid: string; visitUuid?: string; encounterDatetime?: Date }
+  ): Promise<Encounter> {
+    const obs: ObsInput[] = [];
+
+    if (vitals.bloodPressure) {
+      obs.push({ concept: VITALS_CONCEPTS.SYSTOLIC_BLOOD_PRESSURE, value: vitals.bloodPressure.systolic });
+      obs.push({ concept: VITALS_CONCEPTS.DIASTOLIC_BLOOD_PRESSURE, value: vitals.bloodPressure.diastolic });
+    }
+    if (vitals.temperature !== undefined) {
+      obs.push({ concept: VITALS_CONCEPTS.TEMPERATURE, value: vitals.temperature });
+    }
+    if (vitals.heartRate !== undefined) {
+      obs.push({ concept: VITALS_CONCEPTS.PULSE, value: vitals.heartRate });
+    }
+    if (vitals.weight !== undefined) {
+      obs.push({ concept: VITALS_CONCEPTS.WEIGHT, value: vitals.weight });
+    }
+    if (vitals.height !== undefined) {
+      obs.push({ concept: VITALS_CONCEPTS.HEIGHT, value: vitals.height });
+    }
+
+    return this.createEncounter({
+      ...options,
+      patientUuid,
+      encounterType: 'Vitals',
+      obs
+    });
+  }
+
+  /**
+   * Get an encounter with its observations
+   */
+  async getEncounter(encounterUuid: string): Promise<EncounterFull> {
+    return this.request<EncounterFull>('GET', `encounter/${encounterUuid}`, { params: { v: 'full' } });
+  }
 
-  constructor(apiContext: APIRequestContext, baseURL: string = process.env.BASE_URL || 'https://o2.openmrs.org') {
-    this.apiContext = apiContext;
-    this.baseURL = baseURL;
+  /**
+   * Delete an encounter via API
+   */
+  async deleteEncounter(encounterUuid: string, options: { purge?: boolean } = {}): Promise<void> {
+    await this.deleteResource(`encounter/${encounterUuid}`, options.purge ? { purge: true } : {});
   }
 
   /**
-   * Authenticate with OpenMRS API
+   * Resolve an encounter type UUID from either a UUID or a name
    */
-  async authenticate(username: string, password: string): Promise<void> {
-    try {
-      const response = await this.apiContext.post(`${this.baseURL}/openmrs/ws/rest/v1/session`, {
-        data: { username, password },
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
+  private async resolveEncounterTypeUuid(encounterTypeNameOrUuid: string): Promise<string> {
+    if (isUuid(encounterTypeNameOrUuid)) {
+      return encounterTypeNameOrUuid;
+    }
 
-      if (response.ok()) {
-        const sessionData = await response.json();
-        this.sessionId = sessionData.sessionId;
-      } else {
-        throw new Error(`Authentication failed: ${response.status()} ${response.statusText()}`);
-      }
-    } catch (error) {
-      console.error('API Authentication error:', error);
-      throw error;
+    const encounterTypes = await this.getEncounterTypes();
+    const match = encounterTypes.find(
+      encounterType => encounterType.name.toLowerCase() === encounterTypeNameOrUuid.toLowerCase()
+    );
+    if (!match) {
+      throw new Error(`Encounter type not found: ${encounterTypeNameOrUuid}`);
     }
+    return match.uuid;
   }
 
   /**
-   * Get request headers with authentication
+   * Add an allergy to a patient
    */
-  private getHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+  async addAllergy(patientUuid: string, options: AddAllergyOptions): Promise<Allergy> {
+    const codedAllergen = isUuid(options.allergen)
+      ? options.allergen
+      : await this.findConceptUuid(options.allergen);
 
-    if (this.sessionId) {
-      headers['Cookie'] = `JSESSIONID=${this.sessionId}`;
+    const payload: Record<string, unknown> = {
+      allergen: codedAllergen
+        ? { allergenType: options.allergenType, codedAllergen: { uuid: codedAllergen } }
+        : {
+            allergenType: options.allergenType,
+            codedAllergen: { uuid: OTHER_NON_CODED_CONCEPT },
+            nonCodedAllergen: options.allergen
+          },
+      reactions: await Promise.all(
+        (options.reactions || []).map(async reaction => ({
+          reaction: { uuid: await this.resolveConceptUuid(reaction) }
+        }))
+      )
+    };
+    if (options.severity) {
+      payload.severity = { uuid: await this.resolveConceptUuid(options.severity) };
+    }
+    if (options.comment) {
+      payload.comment = options.comment;
     }
 
-    return headers;
+    return this.request<Allergy>('POST', `patient/${patientUuid}/allergy`, { data: payload });
   }
 
   /**
-   * Create a test patient via API
+   * Get all allergies recorded for a patient
    */
-  async createTestPatient(patientData: {
-    givenName: string;
-    familyName: string;
-    gender: 'M' | 'F';
-    birthdate: string;
-    address1?: string;
-    cityVillage?: string;
-    country?: string;
-  }): Promise<{ uuid: string; id: string }> {
-    try {
-      const payload = {
-        person: {
-          names: [{
-            givenName: patientData.givenName,
-            familyName: patientData.familyName
-          }],
-          gender: patientData.gender,
-          birthdate: patientData.birthdate,
-          addresses: patientData.address1 ? [{
-            address1: patientData.address1,
-            cityVillage: patientData.cityVillage || '',
-            country: patientData.country || ''
-          }] : []
-        }
-      };
+  async getAllergies(patientUuid: string): Promise<Allergy[]> {
+    return this.list<Allergy>(`patient/${patientUuid}/allergy`, { v: 'default' });
+  }
 
-      const response = await this.apiContext.post(`${this.baseURL}/openmrs/ws/rest/v1/patient`, {
-        data: payload,
-        headers: this.getHeaders()
-      });
+  /**
+   * Remove an allergy from a patient
+   */
+  async removeAllergy(patientUuid: string, allergyUuid: string, options: { purge?: boolean } = {}): Promise<void> {
+    await this.deleteResource(`patient/${patientUuid}/allergy/${allergyUuid}`, options.purge ? { purge: true } : {});
+  }
 
-      if (response.ok()) {
-        const patient = await response.json();
-        return {
-          uuid: patient.uuid,
-          id: patient.identifiers?.[0]?.identifier || patient.uuid
-        };
-      } else {
-        const errorText = await response.text();
-        throw new Error(`Failed to create patient: ${response.status()} ${errorText}`);
-      }
-    } catch (error) {
-      console.error('Failed to create test patient:', error);
-      throw error;
+  /**
+   * Add a condition to a patient
+   */
+  async addCondition(patientUuid: string, options: AddConditionOptions): Promise<Condition> {
+    const codedCondition = isUuid(options.condition)
+      ? options.condition
+      : await this.findConceptUuid(options.condition);
+
+    const payload: Record<string, unknown> = {
+      patient: patientUuid,
+      condition: codedCondition ? { coded: codedCondition } : { nonCoded: options.condition },
+      clinicalStatus: options.clinicalStatus || 'ACTIVE',
+      verificationStatus: 'CONFIRMED'
+    };
+    if (options.onsetDate) {
+      payload.onsetDate = formatOpenmrsDatetime(options.onsetDate);
     }
+
+    return this.request<Condition>('POST', 'condition', { data: payload });
   }
 
   /**
-   * Delete a patient via API
+   * Get all conditions recorded for a patient
    */
-  async deletePatient(patientUuid: string): Promise<void> {
-    try {
-      const response = await this.apiContext.delete(`${this.baseURL}/openmrs/ws/rest/v1/patient/${patientUuid}`, {
-        headers: this.getHeaders()
-      });
+  async getConditions(patientUuid: string): Promise<Condition[]> {
+    return this.list<Condition>('condition', { patientUuid, v: 'default' });
+  }
 
-      if (!response.ok()) {
-        console.warn(`Failed to delete patient ${patientUuid}: ${response.status()}`);
-      }
-    } catch (error) {
-      console.error('Failed to delete patient:', error);
-      // Don't throw here as this is cleanup - log and continue
-    }
+  /**
+   * Remove a condition from a patient
+   */
+  async removeCondition(conditionUuid: string, options: { purge?: boolean } = {}): Promise<void> {
+    await this.deleteResource(`condition/${conditionUuid}`, options.purge ? { purge: true } : {});
   }
 
   /**
-   * Search for patients via API
+   * Create a person who is not a patient (e.g. a relative)
    */
-  async searchPatients(query: string): Promise<Array<{
-    uuid: string;
-    display: string;
-    identifiers: Array<{ identifier: string }>;
-    person: {
-      gender: string;
-      age: number;
-      names: Array<{ display: string }>;
+  async createPerson(personData: CreatePersonOptions): Promise<Person> {
+    const payload: Record<string, unknown> = {
+      names: [{ givenName: personData.givenName, familyName: personData.familyName }],
+      gender: personData.gender
     };
-  }>> {
-    try {
-      const response = await this.apiContext.get(`${this.baseURL}/openmrs/ws/rest/v1/patient`, {
-        params: { q: query, v: 'full' },
-        headers: this.getHeaders()
-      });
-
-      if (response.ok()) {
-        const data = await response.json();
-        return data.results || [];
-      } else {
-        throw new Error(`Patient search failed: ${response.status()}`);
-      }
-    } catch (error) {
-      console.error('Patient search error:', error);
-      return [];
+    if (personData.birthdate) {
+      payload.birthdate = personData.birthdate;
     }
+
+    return this.request<Person>('POST', 'person', { data: payload });
   }
 
   /**
-   * Get patient by UUID
+   * Delete a person via API
    */
-  async getPatient(patientUuid: string): Promise<any> {
-    try {
-      const response = await this.apiContext.get(`${this.baseURL}/openmrs/ws/rest/v1/patient/${patientUuid}`, {
-        params: { v: 'full' },
-        headers: this.getHeaders()
-      });
+  async deletePerson(personUuid: string, options: { purge?: boolean } = {}): Promise<void> {
+    await this.deleteResource(`person/${personUuid}`, options.purge ? { purge: true } : {});
+  }
+
+  /**
+   * Get all relationship types
+   */
+  async getRelationshipTypes(): Promise<RelationshipType[]> {
+    return this.list<RelationshipType>('relationshiptype', { v: 'default' });
+  }
+
+  /**
+   * Find a relationship type by either of its labels (case-insensitive).
+   * Matching 'Parent' on a Parent/Child type means the relative is person A;
+   * matching 'Child' means the relative is person B. This is the same
+   * convention the registration form uses for its relationship dropdown.
+   */
+  async findRelationshipType(label: string): Promise<RelationshipTypeMatch | undefined> {
+    const relationshipTypes = await this.getRelationshipTypes();
+    const normalizedLabel = label.toLowerCase();
 
-      if (response.ok()) {
-        return await response.json();
-      } else {
-        throw new Error(`Failed to get patient: ${response.status()}`);
+    for (const relationshipType of relationshipTypes) {
+      if (relationshipType.aIsToB.toLowerCase() === normalizedLabel) {
+        return { relationshipType, relativeIs: 'A' };
+      }
+      if (relationshipType.bIsToA.toLowerCase() === normalizedLabel) {
+        return { relationshipType, relativeIs: 'B' };
       }
-    } catch (error) {
-      console.error('Failed to get patient:', error);
-      throw error;
     }
+    return undefined;
   }
 
   /**
-   * Create multiple test patients
+   * Create a relationship between two persons
    */
-  async createMultipleTestPatients(patientsData: Array<{
-    givenName: string;
-    familyName: string;
-    gender: 'M' | 'F';
-    birthdate: string;
-    address1?: string;
-    cityVillage?: string;
-    country?: string;
-  }>): Promise<Array<{ uuid: string; id: string }>> {
-    const createdPatients = [];
-    
-    for (const patientData of patientsData) {
-      try {
-        const patient = await this.createTestPatient(patientData);
-        createdPatients.push(patient);
-      } catch (error) {
-        console.error(`Failed to create patient ${patientData.givenName} ${patientData.familyName}:`, error);
-      }
+  async createRelationship(relationship: {
+    personA: string;
+    personB: string;
+    relationshipType: string;
+  }): Promise<Relationship> {
+    return this.request<Relationship>('POST', 'relationship', { data: relationship });
+  }
+
+  /**
+   * Get all relationships a person takes part in, on either side
+   */
+  async getRelationships(personUuid: string): Promise<Relationship[]> {
+    return this.list<Relationship>('relationship', { person: personUuid, v: 'default' });
+  }
+
+  /**
+   * Delete a relationship via API
+   */
+  async deleteRelationship(relationshipUuid: string, options: { purge?: boolean } = {}): Promise<void> {
+    await this.deleteResource(`relationship/${relationshipUuid}`, options.purge ? { purge: true } : {});
+  }
+
+  /**
+   * Get all roles
+   */
+  async getRoles(): Promise<Role[]> {
+    return this.list<Role>('role', { v: 'default' });
+  }
+
+  /**
+   * Resolve a role UUID from either a UUID or a role name (case-insensitive)
+   */
+  async resolveRoleUuid(roleNameOrUuid: string): Promise<string> {
+    if (isUuid(roleNameOrUuid)) {
+      return roleNameOrUuid;
     }
-    
-    return createdPatients;
+
+    const roles = await this.getRoles();
+    const match = roles.find(role => role.name.toLowerCase() === roleNameOrUuid.toLowerCase());
+    if (!match) {
+      throw new Error(`Role not found: ${roleNameOrUuid}`);
+    }
+    return match.uuid;
   }
 
   /**
-   * Clean up multiple patients
+   * Create a user account, creating its person too when person details are given
    */
-  async cleanupPatients(patientUuids: string[]): Promise<void> {
-    const cleanupPromises = patientUuids.map(uuid => this.deletePatient(uuid));
-    await Promise.allSettled(cleanupPromises);
+  async createUser(userData: CreateUserOptions): Promise<User> {
+    const roles = await Promise.all((userData.roles || []).map(role => this.resolveRoleUuid(role)));
+    const person =
+      typeof userData.person === 'string'
+        ? userData.person
+        : {
+            names: [{ givenName: userData.person.givenName, familyName: userData.person.familyName }],
+            gender: userData.person.gender,
+            ...(userData.person.birthdate ? { birthdate: userData.person.birthdate } : {})
+          };
+
+    return this.request<User>('POST', 'user', {
+      data: { username: userData.username, password: userData.password, person, roles }
+    });
   }
 
   /**
-   * Get system information
+   * Get a user by UUID
    */
-  async getSystemInfo(): Promise<any> {
-    try {
-      const response = await this.apiContext.get(`${this.baseURL}/openmrs/ws/rest/v1/systeminfo`, {
-        headers: this.getHeaders()
-      });
+  async getUser(userUuid: string): Promise<User> {
+    return this.request<User>('GET', `user/${userUuid}`, { params: { v: 'default' } });
+  }
 
-      if (response.ok()) {
-        return await response.json();
-      }
-    } catch (error) {
-      console.error('Failed to get system info:', error);
+  /**
+   * Add roles (names or UUIDs) to a user, keeping the roles it already has
+   */
+  async assignRoles(userUuid: string, roles: string[]): Promise<User> {
+    const user = await this.getUser(userUuid);
+    const roleUuids = new Set(user.roles.map(role => role.uuid));
+    for (const role of roles) {
+      roleUuids.add(await this.resolveRoleUuid(role));
     }
-    return null;
+
+    return this.request<User>('POST', `user/${userUuid}`, { data: { roles: [...roleUuids] } });
   }
 
   /**
-   * Get all locations
+   * Retire a user so it can no longer log in, or purge it entirely; either
+   * way its person stays
    */
-  async getLocations(): Promise<Array<{ uuid: string; name: string; display: string }>> {
-    try {
-      const response = await this.apiContext.get(`${this.baseURL}/openmrs/ws/rest/v1/location`, {
-        params: { v: 'full' },
-        headers: this.getHeaders()
-      });
+  async retireUser(
+    userUuid: string,
+    options: { reason?: string; purge?: boolean } = {}
+  ): Promise<void> {
+    await this.deleteResource(
+      `user/${userUuid}`,
+      options.purge ? { purge: true } : { reason: options.reason || DEFAULT_VOID_REASON }
+    );
+  }
 
-      if (response.ok()) {
-        const data = await response.json();
-        return data.results || [];
+  /**
+   * Make a person a provider, so encounters can be recorded in their name
+   */
+  async createProvider(providerData: CreateProviderOptions): Promise<Provider> {
+    return this.request<Provider>('POST', 'provider', {
+      data: {
+        person: providerData.personUuid,
+        identifier: providerData.identifier || `TEST-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
       }
-    } catch (error) {
-      console.error('Failed to get locations:', error);
+    });
+  }
+
+  /**
+   * Retire a provider, or purge it entirely
+   */
+  async retireProvider(
+    providerUuid: string,
+    options: { reason?: string; purge?: boolean } = {}
+  ): Promise<void> {
+    await this.deleteResource(
+      `provider/${providerUuid}`,
+      options.purge ? { purge: true } : { reason: options.reason || DEFAULT_VOID_REASON }
+    );
+  }
+
+  /**
+   * Get the system settings (global properties) whose names contain `query`,
+   * e.g. 'registrationcore.'
+   */
+  async getSystemSettings(query: string): Promise<SystemSetting[]> {
+    return this.list<SystemSetting>('systemsetting', { q: query, v: 'full' });
+  }
+
+  /**
+   * Find a system setting by its exact property name, if it exists
+   */
+  async findSystemSetting(property: string): Promise<SystemSetting | undefined> {
+    const settings = await this.getSystemSettings(property);
+    return settings.find(setting => setting.property === property);
+  }
+
+  /**
+   * Set a system setting, creating it when the server does not have it yet.
+   * Global properties are server-wide: prefer SystemSettingOverrides (or the
+   * systemSettings fixture), which puts the old value back afterwards.
+   */
+  async setSystemSetting(property: string, value: string | null): Promise<SystemSetting> {
+    const existing = await this.findSystemSetting(property);
+    if (existing) {
+      return this.request<SystemSetting>('POST', `systemsetting/${existing.uuid}`, { data: { value } });
+    }
+    return this.request<SystemSetting>('POST', 'systemsetting', { data: { property, value } });
+  }
+
+  /**
+   * Delete a system setting; one that does not exist counts as deleted
+   */
+  async deleteSystemSetting(property: string): Promise<void> {
+    const existing = await this.findSystemSetting(property);
+    if (existing) {
+      await this.deleteResource(`systemsetting/${existing.uuid}`, { purge: true });
     }
-    return [];
   }
 
   /**
@@ -249,7 +1512,7 @@ export class ApiHelpers {
    */
   async verifyConnectivity(): Promise<boolean> {
     try {
-      const response = await this.apiContext.get(`${this.baseURL}/openmrs/ws/rest/v1/session`, {
+      const response = await this.apiContext.get(this.restUrl('session'), {
         timeout: 5000
       });
       return response.ok();
@@ -262,15 +1525,15 @@ export class ApiHelpers {
    * Logout from API session
    */
   async logout(): Promise<void> {
-    if (this.sessionId) {
+    if (this.auth) {
       try {
-        await this.apiContext.delete(`${this.baseURL}/openmrs/ws/rest/v1/session`, {
-          headers: this.getHeaders()
-        });
+        await this.auth.logout(this.authTarget());
       } catch (error) {
         console.error('Logout error:', error);
       } finally {
-        this.sessionId = undefined as any;
+        this.auth = undefined;
+        this.sessionLocationUuid = undefined;
+        this.defaultIdentifierLocationUuid = undefined;
       }
     }
   }
@@ -282,6 +1545,14 @@ export class ApiHelpers {
 export class DataSeeder {
   private apiHelpers: ApiHelpers;
   private createdPatients: string[] = [];
+  private createdVisits: string[] = [];
+  private createdEncounters: string[] = [];
+  private createdAllergies: Array<{ patientUuid: string; allergyUuid: string }> = [];
+  private createdConditions: string[] = [];
+  private createdRelationships: string[] = [];
+  private createdPersons: string[] = [];
+  private createdUsers: User[] = [];
+  private createdProviders: string[] = [];
 
   constructor(apiHelpers: ApiHelpers) {
     this.apiHelpers = apiHelpers;
@@ -290,43 +1561,421 @@ export class DataSeeder {
   /**
    * Seed test patients for search testing
    */
-  async seedPatientsForSearch(): Promise<Array<{ uuid: string; id: string; name: string }>> {
+  async seedPatientsForSearch(): Promise<Array<CreatedPatient & { name: string }>> {
     const testPatients = [
-      { givenName: 'John', familyName: 'Doe', gender: 'M' as const, birthdate: '1990-01-01' },
-      { givenName: 'Jane', familyName: 'Smith', gender: 'F' as const, birthdate: '1985-05-15' },
-      { givenName: 'Michael', familyName: 'Johnson', gender: 'M' as const, birthdate: '1980-12-25' }
+      { givenName: 'John', familyName: `${TEST_PATIENT_PREFIX}Doe`, gender: 'M' as const, birthdate: '1990-01-01' },
+      { givenName: 'Jane', familyName: `${TEST_PATIENT_PREFIX}Smith`, gender: 'F' as const, birthdate: '1985-05-15' },
+      { givenName: 'Michael', familyName: `${TEST_PATIENT_PREFIX}Johnson`, gender: 'M' as const, birthdate: '1980-12-25' }
     ];
 
     const createdPatients = [];
     for (const patientData of testPatients) {
-      try {
-        const patient = await this.apiHelpers.createTestPatient(patientData);
-        this.createdPatients.push(patient.uuid);
-        createdPatients.push({
-          ...patient,
-          name: `${patientData.givenName} ${patientData.familyName}`
-        });
-      } catch (error) {
-        console.error('Failed to seed patient:', error);
-      }
+      const patient = await this.apiHelpers.createTestPatient(patientData);
+      this.createdPatients.push(patient.uuid);
+      createdPatients.push({
+        ...patient,
+        name: `${patientData.givenName} ${patientData.familyName}`
+      });
     }
 
     return createdPatients;
   }
 
+  /**
+   * Seed a single patient, by default with freshly generated data.
+   * The returned data is exactly what was sent, so UI assertions can use it.
+   */
+  async seedPatient(
+    patientData: ApiPatientData = generatePatientData()
+  ): Promise<CreatedPatient & { patientData: ApiPatientData }> {
+    const patient = await this.apiHelpers.createTestPatient(patientData);
+    this.createdPatients.push(patient.uuid);
+    return { ...patient, patientData };
+  }
+
+  /**
+   * Start a visit for a seeded patient.
+   * Location and visit type default to the first ones the server returns.
+   */
+  async seedActiveVisit(
+    patientUuid: string,
+    options: { locationName?: string; visitTypeName?: string } = {}
+  ): Promise<Visit> {
+    const location = await this.resolveLocation(options.locationName);
+
+    const visitType = options.visitTypeName
+      ? await this.apiHelpers.getVisitTypeByName(options.visitTypeName)
+      : (await this.apiHelpers.getVisitTypes())[0];
+    if (!visitType) {
+      throw new Error(`Visit type not found: ${options.visitTypeName || '(any)'}`);
+    }
+
+    const visit = await this.apiHelpers.startVisit({
+      patientUuid,
+      locationUuid: location.uuid,
+      visitTypeUuid: visitType.uuid
+    });
+    this.createdVisits.push(visit.uuid);
+
+    return visit;
+  }
+
+  /**
+   * Record vitals for a seeded patient, optionally inside an existing visit
+   */
+  async seedVitals(
+    patientUuid: string,
+    vitals: VitalsInput,
+    options: { visitUuid?: string; locationName?: string } = {}
+  ): Promise<Encounter> {
+    const location = await this.resolveLocation(options.locationName);
+
+    const encounter = await this.apiHelpers.createVitals(patientUuid, vitals, {
+      locationUuid: location.uuid,
+      ...(options.visitUuid ? { visitUuid: options.visitUuid } : {})
+    });
+    this.createdEncounters.push(encounter.uuid);
+
+    return encounter;
+  }
+
+  /**
+   * Turn generateMedicalData output into real allergy and condition records.
+   * 'None' entries are skipped, so an empty list leaves the sections empty.
+   */
+  async seedMedicalData(
+    patientUuid: string,
+    medicalData: Pick<ReturnType<typeof generateMedicalData>, 'allergies' | 'conditions'> = generateMedicalData()
+  ): Promise<{ allergies: Allergy[]; conditions: Condition[] }> {
+    const allergies: Allergy[] = [];
+    for (const allergen of medicalData.allergies.filter(name => name !== 'None')) {
+      const allergy = await this.apiHelpers.addAllergy(patientUuid, {
+        allergen,
+        allergenType: MEDICAL_DATA_ALLERGEN_TYPES[allergen] || 'OTHER'
+      });
+      this.createdAllergies.push({ patientUuid, allergyUuid: allergy.uuid });
+      allergies.push(allergy);
+    }
+
+    const conditions: Condition[] = [];
+    for (const conditionName of medicalData.conditions.filter(name => name !== 'None')) {
+      const condition = await this.apiHelpers.addCondition(patientUuid, { condition: conditionName });
+      this.createdConditions.push(condition.uuid);
+      conditions.push(condition);
+    }
+
+    return { allergies, conditions };
+  }
+
+  /**
+   * Turn a PatientData.relatives array into related person records.
+   * Each relative becomes a new person linked to the patient with the
+   * relationship type whose label matches `relationshipType`.
+   */
+  async seedRelatives(
+    patientUuid: string,
+    relatives: RelativeData[]
+  ): Promise<Array<{ relative: RelativeData; person: Person; relationship: Relationship }>> {
+    const seeded = [];
+
+    for (const relative of relatives) {
+      const match = await this.apiHelpers.findRelationshipType(relative.relationshipType);
+      if (!match) {
+        throw new Error(`Relationship type not found: ${relative.relationshipType}`);
+      }
+
+      const person = await this.apiHelpers.createPerson({ ...splitPersonName(relative.personName), gender: 'U' });
+      this.createdPersons.push(person.uuid);
+
+      const relationship = await this.apiHelpers.createRelationship({
+        personA: match.relativeIs === 'A' ? person.uuid : patientUuid,
+        personB: match.relativeIs === 'A' ? patientUuid : person.uuid,
+        relationshipType: match.relationshipType.uuid
+      });
+      this.createdRelationships.push(relationship.uuid);
+
+      seeded.push({ relative, person, relationship });
+    }
+
+    return seeded;
+  }
+
+  /**
+   * Provision a fresh user with the given roles (names or UUIDs), by default
+   * also registered as a provider so it can record encounters
+   */
+  async seedUser(roles: string[], options: { provider?: boolean } = {}): Promise<ProvisionedUser> {
+    const credentials = generateUserCredentials();
+    // Test data is seeded per test, so the generated username repeats from run
+    // to run; retired users keep theirs, hence the per-run suffix
+    credentials.username = `${credentials.username}_${Date.now().toString(36)}`;
+    const person = await this.apiHelpers.createPerson({
+      givenName: credentials.firstName,
+      familyName: credentials.lastName,
+      gender: 'U'
+    });
+    this.createdPersons.push(person.uuid);
+
+    const user = await this.apiHelpers.createUser({
+      username: credentials.username,
+      password: credentials.password,
+      person: person.uuid,
+      roles
+    });
+    this.createdUsers.push(user);
+
+    const provisioned: ProvisionedUser = {
+      username: credentials.username,
+      password: credentials.password,
+      roles,
+      user
+    };
+    if (options.provider !== false) {
+      provisioned.provider = await this.apiHelpers.createProvider({ personUuid: person.uuid });
+      this.createdProviders.push(provisioned.provider.uuid);
+    }
+
+    return provisioned;
+  }
+
   /**
    * Cleanup all seeded data
    */
   async cleanup(): Promise<void> {
+    if (this.createdRelationships.length > 0) {
+      logRejected(
+        'Failed to delete relationship',
+        await Promise.allSettled(this.createdRelationships.map(uuid => this.apiHelpers.deleteRelationship(uuid)))
+      );
+      this.createdRelationships = [];
+    }
+
+    if (this.createdAllergies.length > 0) {
+      logRejected(
+        'Failed to remove allergy',
+        await Promise.allSettled(
+          this.createdAllergies.map(({ patientUuid, allergyUuid }) =>
+            this.apiHelpers.removeAllergy(patientUuid, allergyUuid)
+          )
+        )
+      );
+      this.createdAllergies = [];
+    }
+
+    if (this.createdConditions.length > 0) {
+      logRejected(
+        'Failed to remove condition',
+        await Promise.allSettled(this.createdConditions.map(uuid => this.apiHelpers.removeCondition(uuid)))
+      );
+      this.createdConditions = [];
+    }
+
+    if (this.createdEncounters.length > 0) {
+      logRejected(
+        'Failed to delete encounter',
+        await Promise.allSettled(this.createdEncounters.map(uuid => this.apiHelpers.deleteEncounter(uuid)))
+      );
+      this.createdEncounters = [];
+    }
+
+    // Visits reference patients, so they have to go first
+    if (this.createdVisits.length > 0) {
+      logRejected(
+        'Failed to delete visit',
+        await Promise.allSettled(this.createdVisits.map(uuid => this.apiHelpers.deleteVisit(uuid)))
+      );
+      this.createdVisits = [];
+    }
+
     if (this.createdPatients.length > 0) {
       await this.apiHelpers.cleanupPatients(this.createdPatients);
       this.createdPatients = [];
     }
+
+    // Users and providers reference persons, so they have to go first
+    if (this.createdProviders.length > 0) {
+      logRejected(
+        'Failed to retire provider',
+        await Promise.allSettled(this.createdProviders.map(uuid => this.apiHelpers.retireProvider(uuid)))
+      );
+      this.createdProviders = [];
+    }
+
+    if (this.createdUsers.length > 0) {
+      logRejected(
+        'Failed to retire user',
+        await Promise.allSettled(this.createdUsers.map(user => this.apiHelpers.retireUser(user.uuid)))
+      );
+    }
+
+    // Retiring a user keeps its person, so void that too
+    const persons = new Set([...this.createdPersons, ...this.createdUsers.map(user => user.person.uuid)]);
+    this.createdUsers = [];
+    if (persons.size > 0) {
+      logRejected(
+        'Failed to delete person',
+        await Promise.allSettled([...persons].map(uuid => this.apiHelpers.deletePerson(uuid)))
+      );
+      this.createdPersons = [];
+    }
+  }
+
+  /**
+   * Find a location by name, or the first available one when no name is given
+   */
+  private async resolveLocation(locationName?: string): Promise<LocationFull> {
+    // Without a name, take a location visits can be started at
+    const locations = await this.apiHelpers.getLocations(
+      locationName ? {} : { tag: VISIT_LOCATION_TAG }
+    );
+    const location = locationName
+      ? locations.find(loc => loc.display === locationName || loc.name === locationName)
+      : locations[0];
+    if (!location) {
+      throw new Error(`Location not found: ${locationName || '(any)'}`);
+    }
+    return location;
+  }
+}
+
+/**
+ * Temporary system setting (global property) changes for a test.
+ *
+ * The first change to a property records its original value; restore() puts
+ * every original value back, or deletes properties that did not exist, in
+ * reverse order. Restoring logs failures instead of throwing, like
+ * DataSeeder.cleanup, so every property gets its chance.
+ *
+ * Global properties are shared by everything on the server, so tests that
+ * override them should not run in parallel with tests that depend on them.
+ */
+export class SystemSettingOverrides {
+  private apiHelpers: ApiHelpers;
+  private originals = new Map<string, SystemSetting | undefined>();
+
+  constructor(apiHelpers: ApiHelpers) {
+    this.apiHelpers = apiHelpers;
+  }
+
+  /**
+   * Change a property until restore() runs
+   */
+  async set(property: string, value: string | null): Promise<SystemSetting> {
+    if (!this.originals.has(property)) {
+      this.originals.set(property, await this.apiHelpers.findSystemSetting(property));
+    }
+    return this.apiHelpers.setSystemSetting(property, value);
+  }
+
+  /**
+   * Change several properties, in order
+   */
+  async setAll(overrides: Record<string, string | null>): Promise<void> {
+    for (const [property, value] of Object.entries(overrides)) {
+      await this.set(property, value);
+    }
+  }
+
+  /**
+   * Current value of a property (null when unset or missing)
+   */
+  async get(property: string): Promise<string | null> {
+    const setting = await this.apiHelpers.findSystemSetting(property);
+    return setting?.value ?? null;
+  }
+
+  /**
+   * Put back every overridden property
+   */
+  async restore(): Promise<void> {
+    const originals = [...this.originals].reverse();
+    this.originals.clear();
+
+    for (const [property, original] of originals) {
+      try {
+        if (original) {
+          await this.apiHelpers.setSystemSetting(property, original.value);
+        } else {
+          await this.apiHelpers.deleteSystemSetting(property);
+        }
+      } catch (error) {
+        console.error(`Failed to restore system setting ${property}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Log every rejection of a Promise.allSettled batch (used by teardown helpers)
+ */
+function logRejected(message: string, results: PromiseSettledResult<unknown>[]): void {
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`${message}:`, result.reason);
+    }
+  }
+}
+
+/**
+ * Format a date the way the OpenMRS REST API expects (yyyy-MM-dd'T'HH:mm:ss.SSSZ)
+ */
+function formatOpenmrsDatetime(date: Date): string {
+  return date.toISOString().replace('Z', '+0000');
+}
+
+/**
+ * Read the startIndex of a next/prev pagination link. Only the index is
+ * reused: the link's host is the server's own view of itself, which can
+ * differ from the base URL the tests reach it through.
+ */
+function startIndexFromLink(links: Link[] | undefined, rel: 'next' | 'prev'): number | null {
+  const link = links?.find(candidate => candidate.rel === rel);
+  if (!link) {
+    return null;
+  }
+  const startIndex = new URL(link.uri).searchParams.get('startIndex');
+  return startIndex ? Number(startIndex) : 0;
+}
+
+/**
+ * Check whether every word of a query appears in one of the patient's names
+ */
+function patientNameMatches(patient: PatientFull, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return patient.person.names.some(name => {
+    const fullName = [name.givenName, name.middleName, name.familyName].filter(Boolean).join(' ').toLowerCase();
+    return words.every(word => fullName.includes(word));
+  });
+}
+
+/**
+ * Build the person addresses payload; patients without any address field get none
+ */
+function buildAddresses(patientData: PatientData): Array<Record<string, string | boolean>> {
+  const address: Record<string, string> = {};
+  for (const field of ['address1', 'cityVillage', 'stateProvince', 'postalCode', 'country'] as const) {
+    const value = patientData[field];
+    if (value) {
+      address[field] = value;
+    }
+  }
+  return Object.keys(address).length > 0 ? [{ ...address, preferred: true }] : [];
+}
+
+/**
+ * Split a full name such as 'Mary Ann Smith' into given and family names
+ */
+function splitPersonName(fullName: string): { givenName: string; familyName: string } {
+  const parts = fullName.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return { givenName: parts[0], familyName: parts[0] };
   }
+  return { givenName: parts.slice(0, -1).join(' '), familyName: parts[parts.length - 1] };
 }
 
 /**
- * Create API helpers instance with authentication
+ * Create API helpers instance with authentication, using the auth strategy
+ * from configuration (AUTH_STRATEGY)
  */
 export async function createAuthenticatedApiHelpers(
   apiContext: APIRequestContext,
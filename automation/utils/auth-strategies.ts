@@ -0,0 +1,328 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { OpenmrsAuthError, createApiError, createNetworkError } from './api-errors';
+import type { Session } from './openmrs-models';
+
+export type AuthStrategyName = 'session' | 'basic' | 'bearer';
+
+/**
+ * The server a strategy authenticates against
+ */
+export interface AuthTarget {
+  apiContext: APIRequestContext;
+  /** Server root, e.g. 'https://o2.openmrs.org' */
+  baseURL: string;
+}
+
+/**
+ * How ApiHelpers and FhirClient authenticate their requests. Strategies log
+ * in lazily before the first request, and again when the server rejects
+ * expired credentials with a 401.
+ *
+ * createAuthStrategy picks one from configuration (AUTH_STRATEGY):
+ * - session: log in once and send the JSESSIONID cookie (default)
+ * - basic: send HTTP basic credentials with every request
+ * - bearer: get an OAuth2 access token from OAUTH_TOKEN_URL and refresh it
+ *   before it expires, for servers behind an OAuth2/OIDC gateway
+ */
+export interface AuthStrategy {
+  readonly name: AuthStrategyName;
+  /** Obtain credentials; runs before the first request and after a 401 */
+  authenticate(target: AuthTarget): Promise<void>;
+  /** True when authenticate has to run before the next request */
+  needsAuthentication(): boolean;
+  /** Headers that authenticate a request */
+  getHeaders(): Record<string, string>;
+  /** Drop the credentials, ending the server session where there is one */
+  logout(target: AuthTarget): Promise<void>;
+}
+
+export interface BearerTokenOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;
+  /** Resource owner credentials; without them the client_credentials grant is used */
+  username?: string;
+  password?: string;
+  /** Refresh this long before the token expires (default 30 seconds) */
+  refreshMarginMs?: number;
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1)
+ */
+interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+/**
+ * Log in through POST /session and send the session cookie with every request
+ */
+export class SessionAuthStrategy implements AuthStrategy {
+  readonly name = 'session';
+  private username: string;
+  private password: string;
+  private currentSessionId: string | undefined;
+
+  constructor(username: string, password: string) {
+    this.username = username;
+    this.password = password;
+  }
+
+  /** The JSESSIONID of the current session, if logged in */
+  get sessionId(): string | undefined {
+    return this.currentSessionId;
+  }
+
+  async authenticate(target: AuthTarget): Promise<void> {
+    this.currentSessionId = undefined;
+    const session = await fetchSession(target, 'POST', {
+      Authorization: basicAuthorization(this.username, this.password),
+    });
+    this.currentSessionId = session.sessionId;
+  }
+
+  needsAuthentication(): boolean {
+    return !this.currentSessionId;
+  }
+
+  getHeaders(): Record<string, string> {
+    return this.currentSessionId ? { Cookie: `JSESSIONID=${this.currentSessionId}` } : {};
+  }
+
+  async logout(target: AuthTarget): Promise<void> {
+    if (!this.currentSessionId) {
+      return;
+    }
+    try {
+      await sendAuthRequest(target.apiContext, 'DELETE', sessionUrl(target), this.getHeaders());
+    } finally {
+      this.currentSessionId = undefined;
+    }
+  }
+}
+
+/**
+ * Send HTTP basic credentials with every request
+ */
+export class BasicAuthStrategy implements AuthStrategy {
+  readonly name = 'basic';
+  private authorization: string;
+  private verified = false;
+
+  constructor(username: string, password: string) {
+    this.authorization = basicAuthorization(username, password);
+  }
+
+  /** Checks the credentials once, so a wrong password fails at login rather than mid-test */
+  async authenticate(target: AuthTarget): Promise<void> {
+    this.verified = false;
+    await fetchSession(target, 'GET', this.getHeaders());
+    this.verified = true;
+  }
+
+  needsAuthentication(): boolean {
+    return !this.verified;
+  }
+
+  getHeaders(): Record<string, string> {
+    return { Authorization: this.authorization };
+  }
+
+  async logout(): Promise<void> {
+    this.verified = false;
+  }
+}
+
+/**
+ * Send an OAuth2 bearer token, refreshing it shortly before it expires
+ */
+export class BearerTokenStrategy implements AuthStrategy {
+  readonly name = 'bearer';
+  private options: BearerTokenOptions;
+  private accessToken: string | undefined;
+  private refreshToken: string | undefined;
+  private expiresAt = 0;
+
+  constructor(options: BearerTokenOptions) {
+    this.options = options;
+  }
+
+  async authenticate(target: AuthTarget): Promise<void> {
+    if (this.refreshToken) {
+      try {
+        await this.requestToken(target, {
+          grant_type: 'refresh_token',
+          refresh_token: this.refreshToken,
+        });
+        return;
+      } catch (error) {
+        // An expired or revoked refresh token: fall back to a full grant
+        console.error('Token refresh failed, requesting a new token:', error);
+        this.refreshToken = undefined;
+      }
+    }
+
+    await this.requestToken(
+      target,
+      this.options.username
+        ? {
+            grant_type: 'password',
+            username: this.options.username,
+            password: this.options.password || '',
+          }
+        : { grant_type: 'client_credentials' }
+    );
+  }
+
+  needsAuthentication(): boolean {
+    const margin = this.options.refreshMarginMs ?? 30 * 1000;
+    return !this.accessToken || Date.now() >= this.expiresAt - margin;
+  }
+
+  getHeaders(): Record<string, string> {
+    return this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {};
+  }
+
+  async logout(): Promise<void> {
+    this.accessToken = undefined;
+    this.refreshToken = undefined;
+    this.expiresAt = 0;
+  }
+
+  private async requestToken(target: AuthTarget, grant: Record<string, string>): Promise<void> {
+    const form: Record<string, string> = { ...grant, client_id: this.options.clientId };
+    if (this.options.clientSecret) {
+      form.client_secret = this.options.clientSecret;
+    }
+    if (this.options.scope) {
+      form.scope = this.options.scope;
+    }
+
+    const token = await sendAuthRequest<TokenResponse>(
+      target.apiContext,
+      'POST',
+      this.options.tokenUrl,
+      {},
+      form
+    );
+    this.accessToken = token.access_token;
+    this.refreshToken = token.refresh_token || this.refreshToken;
+    // Tokens without expires_in are used until the server rejects them
+    this.expiresAt = token.expires_in ? Date.now() + token.expires_in * 1000 : Infinity;
+  }
+}
+
+/**
+ * Build the strategy named by AUTH_STRATEGY (default 'session')
+ */
+export function createAuthStrategy(
+  username: string,
+  password: string,
+  env: NodeJS.ProcessEnv = process.env
+): AuthStrategy {
+  const name = env.AUTH_STRATEGY || 'session';
+  switch (name) {
+    case 'session':
+      return new SessionAuthStrategy(username, password);
+    case 'basic':
+      return new BasicAuthStrategy(username, password);
+    case 'bearer': {
+      if (!env.OAUTH_TOKEN_URL || !env.OAUTH_CLIENT_ID) {
+        throw new Error('AUTH_STRATEGY=bearer needs OAUTH_TOKEN_URL and OAUTH_CLIENT_ID');
+      }
+      return new BearerTokenStrategy({
+        tokenUrl: env.OAUTH_TOKEN_URL,
+        clientId: env.OAUTH_CLIENT_ID,
+        ...(env.OAUTH_CLIENT_SECRET ? { clientSecret: env.OAUTH_CLIENT_SECRET } : {}),
+        ...(env.OAUTH_SCOPE ? { scope: env.OAUTH_SCOPE } : {}),
+        // The gateway may log users in itself (password grant) or only know the client
+        ...(env.OAUTH_GRANT === 'client_credentials' ? {} : { username, password }),
+      });
+    }
+    default:
+      throw new Error(`Unknown AUTH_STRATEGY: ${name} (expected session, basic or bearer)`);
+  }
+}
+
+/**
+ * Send a request with the strategy's credentials, logging in first when
+ * needed. A 401 means the credentials expired: log in again and resend once,
+ * then call onReauthenticated so callers can restore session state.
+ */
+export async function sendAuthenticated<T>(
+  auth: AuthStrategy | undefined,
+  target: AuthTarget,
+  send: (headers: Record<string, string>) => Promise<T>,
+  onReauthenticated?: () => Promise<void>
+): Promise<T> {
+  if (!auth) {
+    return send({});
+  }
+  if (auth.needsAuthentication()) {
+    await auth.authenticate(target);
+  }
+
+  try {
+    return await send(auth.getHeaders());
+  } catch (error) {
+    if (!(error instanceof OpenmrsAuthError) || error.status !== 401) {
+      throw error;
+    }
+    await auth.authenticate(target);
+    await onReauthenticated?.();
+    return send(auth.getHeaders());
+  }
+}
+
+function basicAuthorization(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+function sessionUrl(target: AuthTarget): string {
+  return `${target.baseURL}/openmrs/ws/rest/v1/session`;
+}
+
+/**
+ * Call the session endpoint and fail unless it reports an authenticated user
+ */
+async function fetchSession(
+  target: AuthTarget,
+  method: 'GET' | 'POST',
+  headers: Record<string, string>
+): Promise<Session> {
+  const url = sessionUrl(target);
+  const session = await sendAuthRequest<Session>(target.apiContext, method, url, headers);
+  if (!session.authenticated) {
+    throw new OpenmrsAuthError('invalid credentials', method, url, 401);
+  }
+  return session;
+}
+
+/**
+ * Send a login request directly: it must not go through the retrying,
+ * re-authenticating request path it is part of
+ */
+async function sendAuthRequest<T>(
+  apiContext: APIRequestContext,
+  method: 'GET' | 'POST' | 'DELETE',
+  url: string,
+  headers: Record<string, string>,
+  form?: Record<string, string>
+): Promise<T> {
+  let response: APIResponse;
+  try {
+    response = await apiContext.fetch(url, { method, headers, ...(form ? { form } : {}) });
+  } catch (error) {
+    throw createNetworkError(method, url, error);
+  }
+
+  const body = await response.text();
+  if (!response.ok()) {
+    throw createApiError(method, url, response.status(), body);
+  }
+  return (body ? JSON.parse(body) : undefined) as T;
+}
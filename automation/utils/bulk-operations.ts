@@ -0,0 +1,117 @@
+/**
+ * Runs one async operation over many items with a concurrency limit, and
+ * reports the outcome of every item instead of stopping at the first failure.
+ */
+
+export interface BulkProgress {
+  completed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface BulkOptions<TInput, TResult> {
+  /** Operations in flight at once (default API_CONCURRENCY or 5) */
+  concurrency?: number;
+  /** Called after every item settles; an exception it throws is logged, not rethrown */
+  onProgress?: (progress: BulkProgress) => void;
+  /**
+   * Undo a successful item. When given and any item fails, every successful
+   * item is undone so the batch leaves nothing behind.
+   */
+  rollback?: (result: TResult, input: TInput) => Promise<void>;
+}
+
+export interface BulkSuccess<TInput, TResult> {
+  index: number;
+  input: TInput;
+  result: TResult;
+}
+
+export interface BulkFailure<TInput> {
+  index: number;
+  input: TInput;
+  error: unknown;
+}
+
+export interface BulkReport<TInput, TResult> {
+  total: number;
+  /** Successful items, in input order */
+  succeeded: BulkSuccess<TInput, TResult>[];
+  /** Failed items, in input order */
+  failed: BulkFailure<TInput>[];
+  /** True when the successful items were undone because others failed */
+  rolledBack: boolean;
+  /** Successful items whose rollback failed, so they may still exist */
+  rollbackFailures: BulkFailure<TInput>[];
+  durationMs: number;
+}
+
+export const DEFAULT_CONCURRENCY = Number(process.env.API_CONCURRENCY || 5);
+
+/**
+ * Run `operation` for every item, at most `concurrency` at a time
+ */
+export async function runBulk<TInput, TResult>(
+  items: readonly TInput[],
+  operation: (input: TInput, index: number) => Promise<TResult>,
+  options: BulkOptions<TInput, TResult> = {}
+): Promise<BulkReport<TInput, TResult>> {
+  const startedAt = Date.now();
+  const concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY);
+  const succeeded: BulkSuccess<TInput, TResult>[] = [];
+  const failed: BulkFailure<TInput>[] = [];
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const input = items[index];
+      try {
+        succeeded.push({ index, input, result: await operation(input, index) });
+      } catch (error) {
+        failed.push({ index, input, error });
+      }
+
+      try {
+        options.onProgress?.({
+          completed: succeeded.length + failed.length,
+          total: items.length,
+          succeeded: succeeded.length,
+          failed: failed.length,
+        });
+      } catch (error) {
+        // A broken progress callback must not stop the remaining items
+        console.error('Bulk progress callback failed:', error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  const byIndex = (a: { index: number }, b: { index: number }) => a.index - b.index;
+  const report: BulkReport<TInput, TResult> = {
+    total: items.length,
+    succeeded: succeeded.sort(byIndex),
+    failed: failed.sort(byIndex),
+    rolledBack: false,
+    rollbackFailures: [],
+    durationMs: 0,
+  };
+
+  const rollback = options.rollback;
+  if (rollback && failed.length > 0 && succeeded.length > 0) {
+    const undo = await runBulk(report.succeeded, item => rollback(item.result, item.input), {
+      concurrency,
+    });
+    report.rolledBack = true;
+    report.rollbackFailures = undo.failed.map(failure => ({
+      index: failure.input.index,
+      input: failure.input.input,
+      error: failure.error,
+    }));
+  }
+
+  report.durationMs = Date.now() - startedAt;
+  return report;
+}
@@ -0,0 +1,212 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ApiHelpers } from './api-helpers';
+import type { Concept, OpenmrsRef } from './openmrs-models';
+import { isUuid } from './uuid';
+
+/**
+ * A resolved concept: enough to send in a payload and to show in messages
+ */
+export type ConceptSummary = Pick<OpenmrsRef, 'uuid' | 'display'>;
+
+export interface ConceptServiceOptions {
+  /** Directory of the cache files; defaults to CONCEPT_CACHE_DIR or .cache/concepts */
+  cacheDir?: string;
+  /**
+   * Also write the cache to a file per server, so later runs reuse it
+   * (default); false keeps it in memory only
+   */
+  persist?: boolean;
+}
+
+/** Cached lookups; null records that nothing matched */
+type CacheEntries = Record<string, ConceptSummary | ConceptSummary[] | null>;
+
+export const DEFAULT_CONCEPT_CACHE_DIR = process.env.CONCEPT_CACHE_DIR || '.cache/concepts';
+
+/**
+ * Resolves concepts from the OpenMRS dictionary by name or by mapping
+ * (e.g. 'CIEL:5089'), so seeding code never hard-codes UUIDs that differ
+ * between servers.
+ *
+ * Lookups, including those that found nothing, are cached in memory and in
+ * a JSON file per server under CONCEPT_CACHE_DIR (default .cache/concepts),
+ * so repeated runs against the same server do not query the dictionary again. Delete the file, or call
+ * clearCache(), after the dictionary changes. ApiHelpers resolves concepts
+ * through one (apiHelpers.concepts).
+ */
+export class ConceptService {
+  private apiHelpers: ApiHelpers;
+  private cacheFile: string | undefined;
+  private cache: CacheEntries;
+
+  constructor(apiHelpers: ApiHelpers, options: ConceptServiceOptions = {}) {
+    this.apiHelpers = apiHelpers;
+    if (options.persist !== false) {
+      const cacheDir = options.cacheDir || DEFAULT_CONCEPT_CACHE_DIR;
+      this.cacheFile = join(cacheDir, `${cacheFileName(apiHelpers.baseURL)}.json`);
+    }
+    this.cache = this.readCacheFile();
+  }
+
+  /**
+   * Find the concept with exactly this name (case-insensitive), if there is one
+   */
+  async findByName(name: string): Promise<ConceptSummary | undefined> {
+    const key = `name:${name.toLowerCase()}`;
+    if (key in this.cache) {
+      return this.cachedConcept(key);
+    }
+
+    const concepts = await this.apiHelpers.searchConcepts(name);
+    const match = concepts.find(
+      concept =>
+        concept.display.toLowerCase() === name.toLowerCase() ||
+        concept.name?.name?.toLowerCase() === name.toLowerCase()
+    );
+    return this.remember(key, match ? summarize(match) : null) || undefined;
+  }
+
+  /**
+   * Find the concept mapped to a reference term, given as 'SOURCE:CODE'
+   * (e.g. 'CIEL:5089') or as separate source and code
+   */
+  async findByMapping(mapping: string, code?: string): Promise<ConceptSummary | undefined> {
+    const { source, code: termCode } =
+      code === undefined ? parseMapping(mapping) : { source: mapping, code };
+    const key = `mapping:${source.toUpperCase()}:${termCode}`;
+    if (key in this.cache) {
+      return this.cachedConcept(key);
+    }
+
+    const [match] = await this.apiHelpers.searchConceptsByMapping(source, termCode);
+    return this.remember(key, match ? summarize(match) : null) || undefined;
+  }
+
+  /**
+   * Resolve a concept from a UUID, a mapping such as 'CIEL:5089' or an exact
+   * name, throwing when nothing matches
+   */
+  async resolve(reference: string): Promise<ConceptSummary> {
+    if (isUuid(reference)) {
+      return { uuid: reference, display: reference };
+    }
+
+    const concept = isMapping(reference)
+      ? await this.findByMapping(reference)
+      : await this.findByName(reference);
+    if (!concept) {
+      throw new Error(`Concept not found: ${reference}`);
+    }
+    return concept;
+  }
+
+  /**
+   * Resolve just the UUID of a concept reference (see resolve)
+   */
+  async resolveUuid(reference: string): Promise<string> {
+    return (await this.resolve(reference)).uuid;
+  }
+
+  /**
+   * The answers of a coded concept, in dictionary order
+   */
+  async getAnswers(reference: string): Promise<ConceptSummary[]> {
+    const { uuid } = await this.resolve(reference);
+    const key = `answers:${uuid}`;
+    const cached = this.cache[key];
+    if (Array.isArray(cached)) {
+      return cached;
+    }
+
+    const concept = await this.apiHelpers.getConcept(uuid);
+    return this.remember(key, concept.answers.map(summarize));
+  }
+
+  /**
+   * Resolve one answer of a coded concept by its name (case-insensitive)
+   */
+  async resolveAnswer(reference: string, answerName: string): Promise<ConceptSummary> {
+    const answers = await this.getAnswers(reference);
+    const answer = answers.find(a => a.display.toLowerCase() === answerName.toLowerCase());
+    if (!answer) {
+      throw new Error(
+        `"${answerName}" is not an answer of ${reference} ` +
+          `(answers: ${answers.map(a => a.display).join(', ') || 'none'})`
+      );
+    }
+    return answer;
+  }
+
+  /**
+   * Forget every cached lookup for this server, in memory and on disk
+   */
+  clearCache(): void {
+    this.cache = {};
+    this.writeCacheFile();
+  }
+
+  private cachedConcept(key: string): ConceptSummary | undefined {
+    const cached = this.cache[key];
+    return cached && !Array.isArray(cached) ? cached : undefined;
+  }
+
+  private remember<T extends ConceptSummary | ConceptSummary[] | null>(key: string, value: T): T {
+    this.cache[key] = value;
+    this.writeCacheFile();
+    return value;
+  }
+
+  private readCacheFile(): CacheEntries {
+    if (!this.cacheFile || !existsSync(this.cacheFile)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(this.cacheFile, 'utf-8'));
+    } catch (error) {
+      console.warn(`Ignoring unreadable concept cache ${this.cacheFile}:`, error);
+      return {};
+    }
+  }
+
+  private writeCacheFile(): void {
+    if (!this.cacheFile) {
+      return;
+    }
+    // Merge with entries other workers wrote meanwhile, then swap the file in
+    // atomically so a concurrent reader never sees a partial write
+    const entries =
+      Object.keys(this.cache).length > 0 ? { ...this.readCacheFile(), ...this.cache } : {};
+    const tempFile = `${this.cacheFile}.${process.pid}.tmp`;
+    mkdirSync(join(this.cacheFile, '..'), { recursive: true });
+    writeFileSync(tempFile, JSON.stringify(entries, null, 2));
+    renameSync(tempFile, this.cacheFile);
+  }
+}
+
+function summarize(concept: OpenmrsRef | Concept): ConceptSummary {
+  return { uuid: concept.uuid, display: concept.display };
+}
+
+/**
+ * 'CIEL:5089' style references: a source name, a colon and a code, no spaces
+ */
+function isMapping(reference: string): boolean {
+  return /^[^\s:]+:[^\s:]+$/.test(reference);
+}
+
+function parseMapping(mapping: string): { source: string; code: string } {
+  if (!isMapping(mapping)) {
+    throw new Error(`Expected a concept mapping like 'CIEL:5089', got: ${mapping}`);
+  }
+  const [source, code] = mapping.split(':');
+  return { source, code };
+}
+
+/**
+ * A file name identifying the server, e.g. 'o2.openmrs.org' or 'localhost_8080'
+ */
+function cacheFileName(baseURL: string): string {
+  const { host, pathname } = new URL(baseURL);
+  return `${host}${pathname}`.replace(/[^\w.-]+/g, '_').replace(/_+$/, '');
+}
@@ -0,0 +1,262 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * The subset of JSON Schema (draft-07) the contracts use: types, required
+ * and nested properties, array items, enums, patterns and $ref to another
+ * contract file of the same version. Loading a schema with any other keyword
+ * fails, rather than letting the check pass without it.
+ */
+export interface ContractSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  required?: string[];
+  properties?: Record<string, ContractSchema>;
+  additionalProperties?: boolean | ContractSchema;
+  items?: ContractSchema;
+  minItems?: number;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+}
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+const SUPPORTED_KEYWORDS: ReadonlySet<string> = new Set<keyof ContractSchema>([
+  '$schema',
+  '$id',
+  '$ref',
+  'title',
+  'description',
+  'type',
+  'required',
+  'properties',
+  'additionalProperties',
+  'items',
+  'minItems',
+  'enum',
+  'pattern',
+  'minLength',
+]);
+
+/**
+ * One place where a response breaks its contract
+ */
+export interface ContractViolation {
+  /** Path of the field, e.g. 'results[0].identifiers[0].identifier' */
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Schema version the responses are checked against; a directory under
+ * automation/contracts (default v1)
+ */
+export const CONTRACT_VERSION = process.env.CONTRACT_VERSION || 'v1';
+
+const CONTRACTS_DIR = join(__dirname, '..', 'contracts');
+
+/**
+ * Validates REST responses against the JSON schemas in
+ * automation/contracts/<version>/<name>.schema.json.
+ *
+ * The schemas describe what the helpers rely on, not the whole response:
+ * unknown fields are allowed unless a schema says otherwise, so server
+ * additions pass and removals or type changes fail.
+ */
+export class ContractValidator {
+  private version: string;
+  private contractsDir: string;
+  private schemas = new Map<string, ContractSchema>();
+
+  constructor(version: string = CONTRACT_VERSION, contractsDir: string = CONTRACTS_DIR) {
+    this.version = version;
+    this.contractsDir = contractsDir;
+  }
+
+  /**
+   * Check a response body, returning every violation (empty when it conforms)
+   */
+  validate(contract: string, data: unknown): ContractViolation[] {
+    const violations: ContractViolation[] = [];
+    this.check(this.load(contract), data, '', violations);
+    return violations;
+  }
+
+  /**
+   * Throw with a field-by-field report unless the response conforms
+   */
+  assert(contract: string, data: unknown): void {
+    const violations = this.validate(contract, data);
+    if (violations.length > 0) {
+      throw new Error(formatViolations(`${this.version}/${contract}`, violations));
+    }
+  }
+
+  private load(contract: string): ContractSchema {
+    const name = contract.replace(/\.schema\.json$/, '');
+    const cached = this.schemas.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const file = join(this.contractsDir, this.version, `${name}.schema.json`);
+    if (!existsSync(file)) {
+      throw new Error(`No ${this.version} contract named "${name}" (expected ${file})`);
+    }
+    const schema = JSON.parse(readFileSync(file, 'utf-8')) as ContractSchema;
+    assertSupportedKeywords(schema, `${this.version}/${name}`, '');
+    this.schemas.set(name, schema);
+    return schema;
+  }
+
+  private check(
+    schema: ContractSchema,
+    value: unknown,
+    path: string,
+    violations: ContractViolation[]
+  ): void {
+    if (schema.$ref) {
+      this.check(this.load(schema.$ref), value, path, violations);
+      return;
+    }
+
+    const fail = (expected: string, actual: string = describeValue(value)) => {
+      violations.push({ path: path || '(root)', expected, actual });
+    };
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => hasType(value, type))) {
+        fail(types.join(' or '));
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(option => option === value)) {
+      fail(`one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        fail(`at least ${schema.minLength} character(s)`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        fail(`a string matching /${schema.pattern}/`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail(`at least ${schema.minItems} item(s)`, `${value.length} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) =>
+          this.check(schema.items as ContractSchema, item, `${path}[${index}]`, violations)
+        );
+      }
+      return;
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const field of schema.required || []) {
+      if (!(field in record)) {
+        violations.push({ path: joinPath(path, field), expected: 'present', actual: 'missing' });
+      }
+    }
+    for (const [field, fieldValue] of Object.entries(record)) {
+      const fieldSchema = schema.properties?.[field];
+      if (fieldSchema) {
+        this.check(fieldSchema, fieldValue, joinPath(path, field), violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          path: joinPath(path, field),
+          expected: 'no such field',
+          actual: describeValue(fieldValue),
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.check(schema.additionalProperties, fieldValue, joinPath(path, field), violations);
+      }
+    }
+  }
+}
+
+/**
+ * One line per violation, e.g.
+ *   - person.gender: expected one of "M", "F", "O", "U", got "X"
+ */
+export function formatViolations(contract: string, violations: ContractViolation[]): string {
+  return [
+    `Response does not match contract ${contract} (${violations.length} violation(s)):`,
+    ...violations.map(v => `  - ${v.path}: expected ${v.expected}, got ${v.actual}`),
+  ].join('\n');
+}
+
+/**
+ * Throw on the first keyword check() does not implement, e.g. format or
+ * oneOf, naming where it is in the schema
+ */
+function assertSupportedKeywords(schema: ContractSchema, contract: string, path: string): void {
+  const unsupported = Object.keys(schema).filter(keyword => !SUPPORTED_KEYWORDS.has(keyword));
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Contract ${contract} uses unsupported keyword(s) ${unsupported.join(', ')} at ${path || '(root)'}`
+    );
+  }
+
+  for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+    assertSupportedKeywords(fieldSchema, contract, joinPath(path, field));
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    assertSupportedKeywords(schema.additionalProperties, contract, joinPath(path, '*'));
+  }
+  if (schema.items) {
+    assertSupportedKeywords(schema.items, contract, `${path}[]`);
+  }
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * A short rendering of a value for violation messages
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `array(${value.length})`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return 'object';
+  }
+  const json = JSON.stringify(value);
+  return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+}
+
+function joinPath(path: string, field: string): string {
+  const segment = /^[A-Za-z_$][\w$]*$/.test(field) ? field : `[${JSON.stringify(field)}]`;
+  return path && !segment.startsWith('[') ? `${path}.${segment}` : `${path}${segment}`;
+}
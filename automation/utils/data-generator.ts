@@ -1,64 +1,85 @@
-import { faker } from '@faker-js/faker';
+import { createHash } from 'crypto';
+import { allFakers, faker } from '@faker-js/faker';
+import type { Faker } from '@faker-js/faker';
 import type { PatientData, RelativeData } from '../pages/RegistrationPage';
 
 /**
- * Generate random patient data for testing
+ * Prefix put in front of every generated family name, so the global teardown
+ * can find and purge test patients left on a shared server. Empty by default;
+ * use at least three letters (no digits, which name validation rejects).
  */
-export function generatePatientData(): PatientData {
-  const gender = faker.person.sex() === 'male' ? 'M' : 'F';
-  const firstName = gender === 'M' ? faker.person.firstName('male') : faker.person.firstName('female');
-  const lastName = faker.person.lastName();
-  
-  // Generate birthdate between 18-80 years old
-  const birthdate = faker.date.birthdate({ min: 18, max: 80, mode: 'age' });
-  
-  return {
-    givenName: firstName,
-    familyName: lastName,
-    gender,
-    birthdate: formatDateForInput(birthdate),
-    address1: faker.location.streetAddress(),
-    cityVillage: faker.location.city(),
-    country: faker.location.country(),
-    phoneNumber: faker.phone.number('###-###-####'),
-    relatives: generateRandomRelatives()
-  };
+export const TEST_PATIENT_PREFIX = process.env.TEST_PATIENT_PREFIX || '';
+
+/**
+ * Faker locale patient data is generated in, e.g. 'en', 'id_ID', 'fr' or 'ar'
+ */
+export type DataLocale = Exclude<keyof typeof allFakers, 'base'>;
+
+/**
+ * Locale used when none is given (DATA_LOCALE, 'en' by default)
+ */
+export const DEFAULT_DATA_LOCALE = (process.env.DATA_LOCALE || 'en') as DataLocale;
+
+/**
+ * Get the faker instance for a locale. Locales without their own data for
+ * something (e.g. phone formats) fall back to English for it.
+ */
+export function getLocaleFaker(locale: DataLocale = DEFAULT_DATA_LOCALE): Faker {
+  const localeFaker: Faker | undefined = allFakers[locale];
+  if (!localeFaker || localeFaker === allFakers.base) {
+    const known = Object.keys(allFakers).filter(name => name !== 'base');
+    throw new Error(`Unknown data locale '${locale}', expected one of: ${known.join(', ')}`);
+  }
+  return localeFaker;
+}
+
+/**
+ * Generate random patient data for testing, in the given locale
+ * (DATA_LOCALE by default)
+ */
+export function generatePatientData(options: { locale?: DataLocale } = {}): PatientData {
+  return generatePatientDataWithCriteria(options);
 }
 
 /**
  * Generate multiple patient data entries
  */
-export function generateMultiplePatients(count: number): PatientData[] {
-  return Array.from({ length: count }, () => generatePatientData());
+export function generateMultiplePatients(count: number, options: { locale?: DataLocale } = {}): PatientData[] {
+  return Array.from({ length: count }, () => generatePatientData(options));
 }
 
 /**
- * Generate patient data with specific criteria
+ * Generate patient data with specific criteria. Names, address, city, country
+ * and phone number all come from the same locale.
  */
 export function generatePatientDataWithCriteria(criteria: {
   gender?: 'M' | 'F';
   minAge?: number;
   maxAge?: number;
   country?: string;
+  locale?: DataLocale;
 }): PatientData {
-  const gender = criteria.gender || (faker.person.sex() === 'male' ? 'M' : 'F');
-  const firstName = gender === 'M' ? faker.person.firstName('male') : faker.person.firstName('female');
-  const lastName = faker.person.lastName();
+  const locale = criteria.locale || DEFAULT_DATA_LOCALE;
+  const localeFaker = getLocaleFaker(locale);
+
+  const gender = criteria.gender || (localeFaker.person.sex() === 'male' ? 'M' : 'F');
+  const firstName = gender === 'M' ? localeFaker.person.firstName('male') : localeFaker.person.firstName('female');
+  const lastName = `${TEST_PATIENT_PREFIX}${localeFaker.person.lastName()}`;
   
   const minAge = criteria.minAge || 18;
   const maxAge = criteria.maxAge || 80;
-  const birthdate = faker.date.birthdate({ min: minAge, max: maxAge, mode: 'age' });
+  const birthdate = localeFaker.date.birthdate({ min: minAge, max: maxAge, mode: 'age' });
   
   return {
     givenName: firstName,
     familyName: lastName,
     gender,
     birthdate: formatDateForInput(birthdate),
-    address1: faker.location.streetAddress(),
-    cityVillage: faker.location.city(),
-    country: criteria.country || faker.location.country(),
-    phoneNumber: faker.phone.number('###-###-####'),
-    relatives: generateRandomRelatives()
+    address1: localeFaker.location.streetAddress(),
+    cityVillage: localeFaker.location.city(),
+    country: criteria.country || localeCountry(locale, localeFaker),
+    phoneNumber: localePhoneNumber(localeFaker),
+    relatives: generateRandomRelatives(localeFaker)
   };
 }
 
@@ -82,12 +103,13 @@ export function generateInvalidPatientData(): Partial<PatientData> {
 }
 
 /**
- * Generate user credentials for testing
+ * Generate user credentials for testing. The username only uses characters
+ * OpenMRS accepts, and the password always meets the default password policy.
  */
 export function generateUserCredentials() {
   return {
-    username: faker.internet.userName(),
-    password: faker.internet.password({ length: 12 }),
+    username: faker.internet.userName().replace(/[^\w.-]/g, ''),
+    password: `${faker.internet.password({ length: 9 })}Aa1`,
     email: faker.internet.email(),
     firstName: faker.person.firstName(),
     lastName: faker.person.lastName()
@@ -157,7 +179,7 @@ export function generateContactData() {
 /**
  * Generate random relatives (0-3 relatives)
  */
-export function generateRandomRelatives(): RelativeData[] {
+export function generateRandomRelatives(localeFaker: Faker = faker): RelativeData[] {
   const relationshipTypes = [
     'Parent',
     'Sibling', 
@@ -170,14 +192,14 @@ export function generateRandomRelatives(): RelativeData[] {
   ];
   
   // Random number of relatives (0-3)
-  const count = faker.datatype.number({ min: 0, max: 3 });
+  const count = localeFaker.datatype.number({ min: 0, max: 3 });
   
   const relatives: RelativeData[] = [];
   
   for (let i = 0; i < count; i++) {
     relatives.push({
-      relationshipType: faker.helpers.arrayElement(relationshipTypes),
-      personName: faker.person.fullName()
+      relationshipType: localeFaker.helpers.arrayElement(relationshipTypes),
+      personName: localeFaker.person.fullName()
     });
   }
   
@@ -187,7 +209,7 @@ export function generateRandomRelatives(): RelativeData[] {
 /**
  * Generate specific number of relatives
  */
-export function generateRelatives(count: number): RelativeData[] {
+export function generateRelatives(count: number, localeFaker: Faker = faker): RelativeData[] {
   const relationshipTypes = [
     'Parent',
     'Sibling', 
@@ -203,8 +225,8 @@ export function generateRelatives(count: number): RelativeData[] {
   
   for (let i = 0; i < count; i++) {
     relatives.push({
-      relationshipType: faker.helpers.arrayElement(relationshipTypes),
-      personName: faker.person.fullName()
+      relationshipType: localeFaker.helpers.arrayElement(relationshipTypes),
+      personName: localeFaker.person.fullName()
     });
   }
   
@@ -234,6 +256,33 @@ function formatDateForInput(date: Date): string {
   return date.toISOString().split('T')[0];
 }
 
+/**
+ * Country of a locale's region (its likeliest one for a bare language, e.g.
+ * 'ar' is Egypt), or a random country when the locale has no region
+ */
+function localeCountry(locale: DataLocale, localeFaker: Faker): string {
+  try {
+    const region = new Intl.Locale(locale.replace(/_/g, '-')).maximize().region;
+    const country = region && new Intl.DisplayNames(['en'], { type: 'region' }).of(region);
+    if (country && region !== '001') return country;
+  } catch {
+    // Not a BCP 47 tag (e.g. en_BORK); fall through
+  }
+  return localeFaker.location.country();
+}
+
+/**
+ * Phone number in the locale's digit grouping, without extensions and with
+ * dashes as the only separator (e.g. +62-866-1262-679)
+ */
+function localePhoneNumber(localeFaker: Faker): string {
+  return localeFaker.phone
+    .number()
+    .replace(/\s*(x|ext\.?)\s*\d+$/i, '')
+    .replace(/[^\d+]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
 /**
  * Generate date range
  */
@@ -272,8 +321,34 @@ export function generateUniqueId(prefix: string = 'id'): string {
 }
 
 /**
- * Seed faker for consistent test data (use in beforeAll)
+ * Seed every test's data is generated from, instead of the one derived from
+ * the test itself (e.g. to replay a run whose seed is in the report)
+ */
+export const TEST_DATA_SEED = process.env.TEST_DATA_SEED || '';
+
+/**
+ * Faker seed for a test: TEST_DATA_SEED when set, otherwise a hash of the
+ * test's identity (file, title and retry), so re-running the same test
+ * generates the same data
+ */
+export function dataSeedFor(testIdentity: string[]): number {
+  if (TEST_DATA_SEED) {
+    const seed = Number(TEST_DATA_SEED);
+    if (!Number.isSafeInteger(seed) || seed < 0) {
+      throw new Error(`TEST_DATA_SEED must be a non-negative integer, got '${TEST_DATA_SEED}'`);
+    }
+    return seed;
+  }
+
+  return createHash('sha256').update(testIdentity.join('\n')).digest().readUInt32BE(0);
+}
+
+/**
+ * Seed faker, in every locale, for consistent test data (use in beforeAll)
  */
 export function seedFaker(seed: number): void {
   faker.seed(seed);
+  for (const localeFaker of Object.values(allFakers)) {
+    localeFaker.seed(seed);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import {
+  OpenmrsApiError,
+  OpenmrsNotFoundError,
+  createApiError,
+  createNetworkError,
+} from './api-errors';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './retry-policy';
+import { AuthStrategy, createAuthStrategy, sendAuthenticated } from './auth-strategies';
+import type { Bundle, FhirResourceType, FhirResourceTypes } from './fhir-models';
+
+/**
+ * Search parameters; arrays repeat the parameter, e.g.
+ * { date: ['ge2024-01-01', 'le2024-12-31'] }
+ */
+export type FhirSearchParams = Record<string, string | number | boolean | Array<string | number>>;
+
+export interface FhirClientOptions {
+  /** How requests are authenticated; without one the context's cookies are used */
+  auth?: AuthStrategy;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+/**
+ * Client for the OpenMRS FHIR R4 API (/ws/fhir2/R4), next to ApiHelpers for
+ * the legacy REST API. Resource ids are the OpenMRS UUIDs, so a patient
+ * created through either API can be read through the other.
+ *
+ * Errors follow the ApiHelpers policy: failures throw the typed errors from
+ * api-errors, find* returns undefined for a missing resource, and delete
+ * treats 404 and 410 as already deleted.
+ */
+export class FhirClient {
+  private apiContext: APIRequestContext;
+  readonly baseURL: string;
+  private retryPolicy: RetryPolicy;
+  private auth: AuthStrategy | undefined;
+
+  constructor(
+    apiContext: APIRequestContext,
+    baseURL: string = process.env.BASE_URL || 'https://o2.openmrs.org',
+    options: FhirClientOptions = {}
+  ) {
+    this.apiContext = apiContext;
+    this.baseURL = baseURL;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    this.auth = options.auth;
+  }
+
+  /**
+   * Read a resource by id
+   */
+  async read<K extends FhirResourceType>(type: K, id: string): Promise<FhirResourceTypes[K]> {
+    return this.request<FhirResourceTypes[K]>('GET', this.fhirUrl(`${type}/${id}`));
+  }
+
+  /**
+   * Read a resource by id, or undefined when it does not exist
+   */
+  async find<K extends FhirResourceType>(
+    type: K,
+    id: string
+  ): Promise<FhirResourceTypes[K] | undefined> {
+    try {
+      return await this.read(type, id);
+    } catch (error) {
+      if (isGone(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Search, returning the first page of results as a Bundle
+   */
+  async search<K extends FhirResourceType>(
+    type: K,
+    params: FhirSearchParams = {}
+  ): Promise<Bundle<FhirResourceTypes[K]>> {
+    return this.request<Bundle<FhirResourceTypes[K]>>(
+      'GET',
+      `${this.fhirUrl(type)}${toQueryString(params)}`
+    );
+  }
+
+  /**
+   * Fetch the page after `bundle`, or undefined on the last page
+   */
+  async nextPage<T extends FhirResourceTypes[FhirResourceType]>(
+    bundle: Bundle<T>
+  ): Promise<Bundle<T> | undefined> {
+    const next = bundle.link?.find(link => link.relation === 'next');
+    if (!next) {
+      return undefined;
+    }
+    // The server builds paging links from its own idea of its address, which
+    // is wrong behind a proxy; only the query string matters
+    return this.request<Bundle<T>>('GET', `${this.fhirUrl('')}${new URL(next.url).search}`);
+  }
+
+  /**
+   * Iterate over every search result, fetching pages as they are needed
+   */
+  async *iterate<K extends FhirResourceType>(
+    type: K,
+    params: FhirSearchParams = {}
+  ): AsyncGenerator<FhirResourceTypes[K]> {
+    let bundle: Bundle<FhirResourceTypes[K]> | undefined = await this.search(type, params);
+    while (bundle) {
+      for (const entry of bundle.entry || []) {
+        yield entry.resource;
+      }
+      bundle = await this.nextPage(bundle);
+    }
+  }
+
+  /**
+   * Collect every search result across all pages, up to `maxResults`
+   */
+  async searchAll<K extends FhirResourceType>(
+    type: K,
+    params: FhirSearchParams = {},
+    maxResults = Infinity
+  ): Promise<Array<FhirResourceTypes[K]>> {
+    const results: Array<FhirResourceTypes[K]> = [];
+    for await (const resource of this.iterate(type, params)) {
+      results.push(resource);
+      if (results.length >= maxResults) {
+        break;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Create a resource, returning it as stored (with its new id)
+   */
+  async create<K extends FhirResourceType>(
+    resource: FhirResourceTypes[K] & { resourceType: K }
+  ): Promise<FhirResourceTypes[K]> {
+    return this.request<FhirResourceTypes[K]>(
+      'POST',
+      this.fhirUrl(resource.resourceType),
+      resource
+    );
+  }
+
+  /**
+   * Delete a resource; one that no longer exists counts as deleted
+   */
+  async delete(type: FhirResourceType, id: string): Promise<void> {
+    try {
+      await this.request<void>('DELETE', this.fhirUrl(`${type}/${id}`));
+    } catch (error) {
+      if (!isGone(error)) {
+        throw error;
+      }
+    }
+  }
+
+  private fhirUrl(path: string): string {
+    return `${this.baseURL}/openmrs/ws/fhir2/R4/${path}`;
+  }
+
+  private async request<T>(method: HttpMethod, url: string, data?: unknown): Promise<T> {
+    const headers: Record<string, string> = { Accept: FHIR_CONTENT_TYPE };
+    if (data !== undefined) {
+      headers['Content-Type'] = FHIR_CONTENT_TYPE;
+    }
+
+    const send = (authHeaders: Record<string, string>) =>
+      withRetry(
+        async () => {
+          let response: APIResponse;
+          try {
+            response = await this.apiContext.fetch(url, {
+              method,
+              headers: { ...headers, ...authHeaders },
+              ...(data !== undefined ? { data } : {}),
+            });
+          } catch (error) {
+            throw createNetworkError(method, url, error);
+          }
+
+          const body = await response.text();
+          if (!response.ok()) {
+            throw createApiError(method, url, response.status(), body);
+          }
+          return (body ? JSON.parse(body) : undefined) as T;
+        },
+        method,
+        this.retryPolicy
+      );
+
+    return sendAuthenticated(
+      this.auth,
+      { apiContext: this.apiContext, baseURL: this.baseURL },
+      send
+    );
+  }
+}
+
+/**
+ * Create a FHIR client that logs in as the given user (admin by default),
+ * with the auth strategy from configuration (AUTH_STRATEGY)
+ */
+export function createFhirClient(
+  apiContext: APIRequestContext,
+  username: string = process.env.ADMIN_USER || 'admin',
+  password: string = process.env.ADMIN_PASS || 'Admin123'
+): FhirClient {
+  return new FhirClient(apiContext, undefined, { auth: createAuthStrategy(username, password) });
+}
+
+function toQueryString(params: FhirSearchParams): string {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(name, String(item));
+    }
+  }
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * 404, or 410 for resources the server knows were deleted
+ */
+function isGone(error: unknown): boolean {
+  return (
+    error instanceof OpenmrsNotFoundError ||
+    (error instanceof OpenmrsApiError && error.status === 410)
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Typed models for the OpenMRS FHIR R4 API (/ws/fhir2/R4).
+ *
+ * Only the elements the OpenMRS FHIR module reads or writes are modelled.
+ * Everything optional in the FHIR specification is optional here too, since
+ * the server leaves out empty elements.
+ */
+
+export interface Meta {
+  versionId?: string;
+  lastUpdated?: string;
+  tag?: Coding[];
+}
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+/**
+ * Reference to another resource, e.g. { reference: 'Patient/{uuid}' }
+ */
+export interface Reference {
+  reference?: string;
+  type?: string;
+  display?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface Identifier {
+  id?: string;
+  use?: 'usual' | 'official' | 'temp' | 'secondary' | 'old';
+  type?: CodeableConcept;
+  system?: string;
+  value?: string;
+}
+
+export interface HumanName {
+  id?: string;
+  use?: 'usual' | 'official' | 'temp' | 'nickname' | 'anonymous' | 'old' | 'maiden';
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface Address {
+  id?: string;
+  use?: 'home' | 'work' | 'temp' | 'old' | 'billing';
+  line?: string[];
+  city?: string;
+  district?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface ContactPoint {
+  id?: string;
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: 'home' | 'work' | 'temp' | 'old' | 'mobile';
+}
+
+/**
+ * Elements shared by every resource
+ */
+export interface FhirResource {
+  resourceType: string;
+  /** The OpenMRS UUID of the underlying object */
+  id?: string;
+  meta?: Meta;
+}
+
+export type AdministrativeGender = 'male' | 'female' | 'other' | 'unknown';
+
+export interface Patient extends FhirResource {
+  resourceType: 'Patient';
+  active?: boolean;
+  identifier?: Identifier[];
+  name?: HumanName[];
+  telecom?: ContactPoint[];
+  gender?: AdministrativeGender;
+  birthDate?: string;
+  deceasedBoolean?: boolean;
+  deceasedDateTime?: string;
+  address?: Address[];
+}
+
+export interface Encounter extends FhirResource {
+  resourceType: 'Encounter';
+  status: 'planned' | 'in-progress' | 'finished' | 'cancelled' | 'unknown';
+  class: Coding;
+  type?: CodeableConcept[];
+  subject?: Reference;
+  period?: Period;
+  location?: Array<{ location: Reference }>;
+  /** The visit an encounter belongs to (visits are Encounters too) */
+  partOf?: Reference;
+}
+
+export interface Observation extends FhirResource {
+  resourceType: 'Observation';
+  status: 'registered' | 'preliminary' | 'final' | 'amended' | 'cancelled' | 'entered-in-error';
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  encounter?: Reference;
+  effectiveDateTime?: string;
+  issued?: string;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueDateTime?: string;
+  hasMember?: Reference[];
+}
+
+export interface AllergyIntolerance extends FhirResource {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  type?: 'allergy' | 'intolerance';
+  category?: Array<'food' | 'medication' | 'environment' | 'biologic'>;
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  code?: CodeableConcept;
+  patient: Reference;
+  recordedDate?: string;
+  reaction?: Array<{
+    substance?: CodeableConcept;
+    manifestation: CodeableConcept[];
+    severity?: 'mild' | 'moderate' | 'severe';
+  }>;
+  note?: Array<{ text: string }>;
+}
+
+export interface Condition extends FhirResource {
+  resourceType: 'Condition';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  code?: CodeableConcept;
+  subject: Reference;
+  onsetDateTime?: string;
+  abatementDateTime?: string;
+  recordedDate?: string;
+}
+
+export interface BundleLink {
+  relation: 'self' | 'first' | 'previous' | 'next' | 'last' | string;
+  url: string;
+}
+
+export interface BundleEntry<T extends FhirResource> {
+  fullUrl?: string;
+  resource: T;
+  search?: { mode?: 'match' | 'include' | 'outcome' };
+}
+
+/**
+ * A page of search results
+ */
+export interface Bundle<T extends FhirResource> extends FhirResource {
+  resourceType: 'Bundle';
+  type: 'searchset' | 'collection' | 'transaction' | 'batch' | 'history' | string;
+  /** Matches across all pages */
+  total?: number;
+  link?: BundleLink[];
+  entry?: BundleEntry<T>[];
+}
+
+/**
+ * Error and warning details returned by failed requests
+ */
+export interface OperationOutcome extends FhirResource {
+  resourceType: 'OperationOutcome';
+  issue: Array<{
+    severity: 'fatal' | 'error' | 'warning' | 'information';
+    code: string;
+    diagnostics?: string;
+    details?: CodeableConcept;
+  }>;
+}
+
+/**
+ * Resource types the client supports, by their resourceType name
+ */
+export interface FhirResourceTypes {
+  Patient: Patient;
+  Encounter: Encounter;
+  Observation: Observation;
+  AllergyIntolerance: AllergyIntolerance;
+  Condition: Condition;
+}
+
+export type FhirResourceType = keyof FhirResourceTypes;
@@ -0,0 +1,378 @@
+/**
+ * Typed models for the OpenMRS REST API (/ws/rest/v1).
+ *
+ * Each resource comes in the representations the API serves through the `v`
+ * query parameter:
+ * - `ref`: just uuid, display and links (how resources are nested by default)
+ * - `default`: the resource's own fields with related resources as refs
+ * - `full`: default plus nested resources expanded and audit information
+ *
+ * Use `Resource<'patient', 'full'>` (or the named interfaces directly) to pick
+ * the shape matching the `v` value a request was made with.
+ */
+
+export type Representation = 'ref' | 'default' | 'full';
+
+export interface Link {
+  rel: string;
+  uri: string;
+  resourceAlias?: string;
+}
+
+/**
+ * The `ref` representation shared by every resource
+ */
+export interface OpenmrsRef {
+  uuid: string;
+  display: string;
+  links?: Link[];
+}
+
+export interface AuditInfo {
+  creator: OpenmrsRef;
+  dateCreated: string;
+  changedBy: OpenmrsRef | null;
+  dateChanged: string | null;
+}
+
+/**
+ * Envelope returned by list and search endpoints
+ */
+export interface ListResponse<T> {
+  results: T[];
+  links?: Link[];
+}
+
+export interface PersonName extends OpenmrsRef {
+  givenName: string;
+  middleName: string | null;
+  familyName: string;
+  familyName2: string | null;
+  preferred: boolean;
+  voided: boolean;
+}
+
+export interface PersonNameFull extends PersonName {
+  prefix: string | null;
+  familyNamePrefix: string | null;
+  familyNameSuffix: string | null;
+  degree: string | null;
+  auditInfo: AuditInfo;
+}
+
+export interface PersonAddress extends OpenmrsRef {
+  preferred: boolean;
+  address1: string | null;
+  address2: string | null;
+  cityVillage: string | null;
+  stateProvince: string | null;
+  country: string | null;
+  postalCode: string | null;
+  countyDistrict: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  voided: boolean;
+}
+
+export interface PersonAddressFull extends PersonAddress {
+  auditInfo: AuditInfo;
+}
+
+export interface PersonAttribute extends OpenmrsRef {
+  /** Plain value, or a ref for attributes of a resource type such as Location */
+  value: string | OpenmrsRef;
+  attributeType: OpenmrsRef;
+  voided: boolean;
+}
+
+export interface PersonAttributeType extends OpenmrsRef {
+  name: string;
+  description: string | null;
+  format: string | null;
+  searchable: boolean;
+  retired: boolean;
+}
+
+export interface Person extends OpenmrsRef {
+  gender: string;
+  age: number | null;
+  birthdate: string | null;
+  birthdateEstimated: boolean;
+  dead: boolean;
+  deathDate: string | null;
+  causeOfDeath: OpenmrsRef | null;
+  preferredName: OpenmrsRef;
+  preferredAddress: OpenmrsRef | null;
+  attributes: PersonAttribute[];
+  voided: boolean;
+}
+
+export interface PersonFull extends Omit<Person, 'preferredName' | 'preferredAddress'> {
+  preferredName: PersonName;
+  preferredAddress: PersonAddress | null;
+  names: PersonName[];
+  addresses: PersonAddress[];
+  auditInfo: AuditInfo;
+}
+
+export interface PatientIdentifierType extends OpenmrsRef {
+  name: string;
+  description: string | null;
+  format: string | null;
+  required: boolean;
+  retired: boolean;
+}
+
+export interface PatientIdentifier extends OpenmrsRef {
+  identifier: string;
+  identifierType: OpenmrsRef;
+  location: OpenmrsRef | null;
+  preferred: boolean;
+  voided: boolean;
+}
+
+export interface PatientIdentifierFull extends PatientIdentifier {
+  auditInfo: AuditInfo;
+}
+
+export interface Patient extends OpenmrsRef {
+  identifiers: OpenmrsRef[];
+  person: Person;
+  voided: boolean;
+}
+
+export interface PatientFull extends Omit<Patient, 'identifiers' | 'person'> {
+  identifiers: PatientIdentifier[];
+  person: PersonFull;
+  auditInfo: AuditInfo;
+}
+
+export interface Location extends OpenmrsRef {
+  name: string;
+  description: string | null;
+  address1: string | null;
+  cityVillage: string | null;
+  stateProvince: string | null;
+  country: string | null;
+  postalCode: string | null;
+  tags: OpenmrsRef[];
+  parentLocation: OpenmrsRef | null;
+  childLocations: OpenmrsRef[];
+  retired: boolean;
+}
+
+export interface LocationFull extends Location {
+  attributes: OpenmrsRef[];
+  auditInfo: AuditInfo;
+}
+
+export interface VisitType extends OpenmrsRef {
+  name: string;
+  description: string | null;
+  retired: boolean;
+}
+
+export interface Visit extends OpenmrsRef {
+  patient: OpenmrsRef;
+  visitType: OpenmrsRef;
+  indication: OpenmrsRef | null;
+  location: OpenmrsRef | null;
+  startDatetime: string;
+  stopDatetime: string | null;
+  encounters: OpenmrsRef[];
+  attributes: OpenmrsRef[];
+  voided: boolean;
+}
+
+export interface VisitFull extends Omit<Visit, 'encounters'> {
+  encounters: Encounter[];
+  auditInfo: AuditInfo;
+}
+
+export interface EncounterType extends OpenmrsRef {
+  name: string;
+  description: string | null;
+  retired: boolean;
+}
+
+export interface Encounter extends OpenmrsRef {
+  encounterDatetime: string;
+  patient: OpenmrsRef;
+  location: OpenmrsRef | null;
+  form: OpenmrsRef | null;
+  encounterType: OpenmrsRef;
+  obs: OpenmrsRef[];
+  orders: OpenmrsRef[];
+  visit: OpenmrsRef | null;
+  encounterProviders: OpenmrsRef[];
+  voided: boolean;
+}
+
+export interface EncounterFull extends Omit<Encounter, 'obs'> {
+  obs: Obs[];
+  auditInfo: AuditInfo;
+}
+
+export interface Obs extends OpenmrsRef {
+  concept: OpenmrsRef;
+  person: OpenmrsRef;
+  obsDatetime: string;
+  accessionNumber: string | null;
+  obsGroup: OpenmrsRef | null;
+  valueCodedName: OpenmrsRef | null;
+  groupMembers: OpenmrsRef[] | null;
+  comment: string | null;
+  location: OpenmrsRef | null;
+  order: OpenmrsRef | null;
+  encounter: OpenmrsRef | null;
+  /** Numeric, text or datetime value, or a ref for coded obs */
+  value: number | string | OpenmrsRef | null;
+  voided: boolean;
+}
+
+export interface ObsFull extends Obs {
+  auditInfo: AuditInfo;
+}
+
+export interface ConceptName extends OpenmrsRef {
+  name: string;
+  locale: string;
+  localePreferred: boolean;
+  conceptNameType: string | null;
+}
+
+export interface Concept extends OpenmrsRef {
+  name: ConceptName;
+  datatype: OpenmrsRef;
+  conceptClass: OpenmrsRef;
+  set: boolean;
+  answers: OpenmrsRef[];
+  setMembers: OpenmrsRef[];
+  mappings: OpenmrsRef[];
+  retired: boolean;
+}
+
+export type AllergenType = 'DRUG' | 'FOOD' | 'ENVIRONMENT' | 'OTHER';
+
+export interface Allergy extends OpenmrsRef {
+  allergen: {
+    allergenType: AllergenType;
+    codedAllergen: OpenmrsRef;
+    nonCodedAllergen?: string;
+  };
+  severity: OpenmrsRef | null;
+  comment: string | null;
+  reactions: Array<{ reaction: OpenmrsRef; reactionNonCoded: string | null }>;
+}
+
+export type ConditionClinicalStatus = 'ACTIVE' | 'INACTIVE' | 'HISTORY_OF';
+
+export interface Condition extends OpenmrsRef {
+  condition: { coded: OpenmrsRef | null; nonCoded: string | null };
+  clinicalStatus: ConditionClinicalStatus;
+  verificationStatus: string | null;
+  onsetDate: string | null;
+  endDate: string | null;
+  voided: boolean;
+}
+
+export interface RelationshipType extends OpenmrsRef {
+  /** What person A is to person B, e.g. 'Parent' */
+  aIsToB: string;
+  /** What person B is to person A, e.g. 'Child' */
+  bIsToA: string;
+  retired: boolean;
+}
+
+export interface Relationship extends OpenmrsRef {
+  personA: OpenmrsRef;
+  personB: OpenmrsRef;
+  relationshipType: OpenmrsRef;
+  startDate: string | null;
+  endDate: string | null;
+  voided: boolean;
+}
+
+export interface Role extends OpenmrsRef {
+  name: string;
+  description: string | null;
+  privileges: OpenmrsRef[];
+  inheritedRoles: OpenmrsRef[];
+}
+
+export interface User extends OpenmrsRef {
+  username: string;
+  systemId: string;
+  userProperties: Record<string, string>;
+  person: OpenmrsRef;
+  privileges: OpenmrsRef[];
+  roles: OpenmrsRef[];
+  retired: boolean;
+}
+
+export interface Provider extends OpenmrsRef {
+  person: OpenmrsRef | null;
+  identifier: string;
+  attributes: OpenmrsRef[];
+  retired: boolean;
+}
+
+export interface IdentifierSource extends OpenmrsRef {
+  name: string;
+  identifierType: OpenmrsRef;
+}
+
+/**
+ * A global property, exposed by the REST API as a system setting
+ */
+export interface SystemSetting extends OpenmrsRef {
+  property: string;
+  value: string | null;
+  description: string | null;
+  datatypeClassname: string | null;
+}
+
+/**
+ * Response of POST /session and GET /session
+ */
+export interface Session {
+  sessionId: string;
+  authenticated: boolean;
+  user: OpenmrsRef | null;
+  locale: string;
+  sessionLocation: OpenmrsRef | null;
+  currentProvider: OpenmrsRef | null;
+}
+
+/**
+ * Response of GET /systeminfo: sections such as "OpenMRS Information"
+ * mapping property names to values
+ */
+export interface SystemInfo {
+  systemInfo: {
+    systemInfo: Record<string, Record<string, string>>;
+  };
+}
+
+/**
+ * Representations available for each resource type
+ */
+export interface ResourceRepresentations {
+  patient: { ref: OpenmrsRef; default: Patient; full: PatientFull };
+  person: { ref: OpenmrsRef; default: Person; full: PersonFull };
+  personName: { ref: OpenmrsRef; default: PersonName; full: PersonNameFull };
+  personAddress: { ref: OpenmrsRef; default: PersonAddress; full: PersonAddressFull };
+  patientIdentifier: { ref: OpenmrsRef; default: PatientIdentifier; full: PatientIdentifierFull };
+  location: { ref: OpenmrsRef; default: Location; full: LocationFull };
+  visit: { ref: OpenmrsRef; default: Visit; full: VisitFull };
+  encounter: { ref: OpenmrsRef; default: Encounter; full: EncounterFull };
+  obs: { ref: OpenmrsRef; default: Obs; full: ObsFull };
+}
+
+/**
+ * A resource in a given representation, e.g. `Resource<'visit', 'full'>`
+ */
+export type Resource<
+  K extends keyof ResourceRepresentations,
+  R extends Representation = 'default',
+> = ResourceRepresentations[K][R];
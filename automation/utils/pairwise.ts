@@ -0,0 +1,115 @@
+/**
+ * Named dimensions to combine, each with the values it can take, e.g.
+ * { gender: ['M', 'F'], relatives: [0, 1, 2, 3] }
+ */
+export type Dimensions = Record<string, readonly unknown[]>;
+
+/**
+ * One case: a value for every dimension
+ */
+export type Combination<D extends Dimensions> = { -readonly [K in keyof D]: D[K][number] };
+
+interface ValuePair {
+  first: number;
+  firstValue: number;
+  second: number;
+  secondValue: number;
+}
+
+/**
+ * Pairwise (all-pairs) combinations: a small set of cases in which every
+ * value of each dimension appears together with every value of each other
+ * dimension at least once. Five two-valued dimensions and one four-valued
+ * one take 10 cases instead of the 128 of the full product.
+ *
+ * The cases are built greedily, each one covering as many not yet covered
+ * pairs as it can, and without randomness: the same dimensions always give
+ * the same cases, in the same order, so test titles stay stable.
+ */
+export function pairwise<D extends Dimensions>(dimensions: D): Array<Combination<D>> {
+  const names = Object.keys(dimensions);
+  const values = names.map(name => dimensions[name]);
+  names.forEach((name, index) => {
+    if (values[index].length === 0) {
+      throw new Error(`Dimension '${name}' has no values`);
+    }
+  });
+
+  if (names.length < 2) {
+    return values.flatMap(dimensionValues =>
+      dimensionValues.map(value => ({ [names[0]]: value }) as Combination<D>)
+    );
+  }
+
+  const uncovered = new Map<string, ValuePair>();
+  for (let first = 0; first < names.length; first++) {
+    for (let second = first + 1; second < names.length; second++) {
+      for (let firstValue = 0; firstValue < values[first].length; firstValue++) {
+        for (let secondValue = 0; secondValue < values[second].length; secondValue++) {
+          const pair = { first, firstValue, second, secondValue };
+          uncovered.set(pairKey(pair), pair);
+        }
+      }
+    }
+  }
+
+  const rows: number[][] = [];
+  while (uncovered.size > 0) {
+    // Start from the first pair still missing, then fill in the other
+    // dimensions one by one with the value that covers most new pairs
+    const [seed] = uncovered.values();
+    const row: number[] = new Array(names.length).fill(-1);
+    row[seed.first] = seed.firstValue;
+    row[seed.second] = seed.secondValue;
+
+    for (let dimension = 0; dimension < names.length; dimension++) {
+      if (row[dimension] !== -1) {
+        continue;
+      }
+
+      let bestValue = 0;
+      let bestGain = -1;
+      for (let value = 0; value < values[dimension].length; value++) {
+        const gain = row.filter(
+          (otherValue, other) =>
+            otherValue !== -1 &&
+            uncovered.has(pairKey(orderedPair(dimension, value, other, otherValue)))
+        ).length;
+        if (gain > bestGain) {
+          bestValue = value;
+          bestGain = gain;
+        }
+      }
+      row[dimension] = bestValue;
+    }
+
+    for (let first = 0; first < names.length; first++) {
+      for (let second = first + 1; second < names.length; second++) {
+        uncovered.delete(pairKey(orderedPair(first, row[first], second, row[second])));
+      }
+    }
+    rows.push(row);
+  }
+
+  return rows.map(
+    row =>
+      Object.fromEntries(
+        names.map((name, dimension) => [name, values[dimension][row[dimension]]])
+      ) as Combination<D>
+  );
+}
+
+function orderedPair(
+  dimension: number,
+  value: number,
+  other: number,
+  otherValue: number
+): ValuePair {
+  return dimension < other
+    ? { first: dimension, firstValue: value, second: other, secondValue: otherValue }
+    : { first: other, firstValue: otherValue, second: dimension, secondValue: value };
+}
+
+function pairKey({ first, firstValue, second, secondValue }: ValuePair): string {
+  return `${first}=${firstValue},${second}=${secondValue}`;
+}
@@ -0,0 +1,283 @@
+import type { Faker } from '@faker-js/faker';
+import type { PatientData, RelativeData } from '../pages/RegistrationPage';
+import type { ApiPatientData, PatientIdentifierInput } from './api-helpers';
+import {
+  DEFAULT_DATA_LOCALE,
+  TEST_PATIENT_PREFIX,
+  generatePatientDataWithCriteria,
+  generateRelatives,
+  getLocaleFaker,
+} from './data-generator';
+import type { DataLocale } from './data-generator';
+
+/**
+ * Address fields of PatientData, as the registration form and the person
+ * address resource name them
+ */
+export type PatientAddress = Pick<
+  PatientData,
+  'address1' | 'cityVillage' | 'stateProvince' | 'postalCode' | 'country'
+>;
+
+const ADDRESS_FIELDS = [
+  'address1',
+  'cityVillage',
+  'stateProvince',
+  'postalCode',
+  'country',
+] as const;
+
+/**
+ * Fluent builder for test patients, e.g.
+ * aPatient().female().aged(34).withRelatives(2).withoutAddress().build()
+ *
+ * Whatever is not specified is generated like generatePatientData does, in
+ * the builder's locale, so aPatient().build() is an ordinary random patient.
+ * The locale is DEFAULT_DATA_LOCALE unless set: the builder does not see the
+ * dataLocale fixture, so tests pass it with aPatient().inLocale(dataLocale).
+ * build() gives the PatientData the registration pages take, and
+ * buildApiPayload() the ApiPatientData createTestPatient and
+ * DataSeeder.seedPatient take. Each call generates the unspecified values
+ * afresh.
+ */
+export class PatientBuilder {
+  private locale: DataLocale = DEFAULT_DATA_LOCALE;
+  private gender: 'M' | 'F' | undefined;
+  private age: { min: number; max: number } | undefined;
+  private birthdate: string | undefined;
+  private names: Partial<Pick<PatientData, 'givenName' | 'middleName' | 'familyName'>> = {};
+  /** Fields to override in the generated address; null for no address at all */
+  private address: PatientAddress | null = {};
+  private omittedAddressFields = new Set<keyof PatientAddress>();
+  /** Phone number to use; null for none, undefined to generate one */
+  private phoneNumber: string | null | undefined;
+  private relatives: number | RelativeData[] | undefined;
+  private attributes: Record<string, string> = {};
+  private identifiers: PatientIdentifierInput[] = [];
+
+  /**
+   * Generate names, address and phone number in another locale
+   */
+  inLocale(locale: DataLocale): this {
+    this.locale = locale;
+    return this;
+  }
+
+  male(): this {
+    this.gender = 'M';
+    return this;
+  }
+
+  female(): this {
+    this.gender = 'F';
+    return this;
+  }
+
+  /**
+   * Exactly `years` old today
+   */
+  aged(years: number): this {
+    return this.agedBetween(years, years);
+  }
+
+  /**
+   * Between `minYears` and `maxYears` old today (inclusive)
+   */
+  agedBetween(minYears: number, maxYears: number): this {
+    if (minYears < 0 || maxYears < minYears) {
+      throw new Error(`Invalid age range: ${minYears} to ${maxYears}`);
+    }
+    this.age = { min: minYears, max: maxYears };
+    this.birthdate = undefined;
+    return this;
+  }
+
+  /**
+   * Born on a given date (YYYY-MM-DD); future dates are allowed, for negative tests
+   */
+  bornOn(birthdate: string): this {
+    this.birthdate = birthdate;
+    this.age = undefined;
+    return this;
+  }
+
+  /**
+   * Use these names; the family name gets TEST_PATIENT_PREFIX like generated ones
+   */
+  named(givenName: string, familyName?: string): this {
+    this.names.givenName = givenName;
+    if (familyName !== undefined) {
+      this.names.familyName = familyName;
+    }
+    return this;
+  }
+
+  withMiddleName(middleName: string): this {
+    this.names.middleName = middleName;
+    return this;
+  }
+
+  withFamilyName(familyName: string): this {
+    this.names.familyName = familyName;
+    return this;
+  }
+
+  /**
+   * Override some address fields; the others are still generated
+   */
+  withAddress(address: PatientAddress): this {
+    this.address = { ...this.address, ...address };
+    for (const field of Object.keys(address) as Array<keyof PatientAddress>) {
+      this.omittedAddressFields.delete(field);
+    }
+    return this;
+  }
+
+  /**
+   * Leave out some address fields, e.g. withoutAddressFields('country');
+   * the others are still generated
+   */
+  withoutAddressFields(...fields: Array<keyof PatientAddress>): this {
+    for (const field of fields) {
+      this.omittedAddressFields.add(field);
+    }
+    return this;
+  }
+
+  /**
+   * No address at all (none of the address fields is set)
+   */
+  withoutAddress(): this {
+    this.address = null;
+    return this;
+  }
+
+  withPhone(phoneNumber: string): this {
+    this.phoneNumber = phoneNumber;
+    return this;
+  }
+
+  withoutPhone(): this {
+    this.phoneNumber = null;
+    return this;
+  }
+
+  /**
+   * Exactly these relatives, or `count` generated ones
+   */
+  withRelatives(relatives: number | RelativeData[]): this {
+    this.relatives = Array.isArray(relatives) ? [...relatives] : relatives;
+    return this;
+  }
+
+  withoutRelatives(): this {
+    return this.withRelatives(0);
+  }
+
+  /**
+   * Person attribute, keyed by attribute type name (API payload only)
+   */
+  withAttribute(attributeTypeName: string, value: string): this {
+    this.attributes[attributeTypeName] = value;
+    return this;
+  }
+
+  /**
+   * Identifier to create the patient with instead of a generated OpenMRS ID
+   * (API payload only)
+   */
+  withIdentifier(identifier: PatientIdentifierInput): this {
+    this.identifiers.push({ ...identifier });
+    return this;
+  }
+
+  /**
+   * Patient data for the registration pages
+   */
+  build(): PatientData {
+    const localeFaker = getLocaleFaker(this.locale);
+    const patient = generatePatientDataWithCriteria({
+      locale: this.locale,
+      ...(this.gender ? { gender: this.gender } : {}),
+    });
+
+    if (this.age) {
+      patient.birthdate = birthdateForAge(this.age.min, this.age.max, localeFaker);
+    } else if (this.birthdate !== undefined) {
+      patient.birthdate = this.birthdate;
+    }
+
+    if (this.names.givenName !== undefined) {
+      patient.givenName = this.names.givenName;
+    }
+    if (this.names.middleName !== undefined) {
+      patient.middleName = this.names.middleName;
+    }
+    if (this.names.familyName !== undefined) {
+      patient.familyName = this.names.familyName.startsWith(TEST_PATIENT_PREFIX)
+        ? this.names.familyName
+        : `${TEST_PATIENT_PREFIX}${this.names.familyName}`;
+    }
+
+    if (this.address === null) {
+      for (const field of ADDRESS_FIELDS) {
+        delete patient[field];
+      }
+    } else {
+      Object.assign(patient, this.address);
+      for (const field of this.omittedAddressFields) {
+        delete patient[field];
+      }
+    }
+
+    if (this.phoneNumber === null) {
+      delete patient.phoneNumber;
+    } else if (this.phoneNumber !== undefined) {
+      patient.phoneNumber = this.phoneNumber;
+    }
+
+    if (Array.isArray(this.relatives)) {
+      patient.relatives = this.relatives.map(relative => ({ ...relative }));
+    } else if (this.relatives !== undefined) {
+      patient.relatives = generateRelatives(this.relatives, localeFaker);
+    }
+
+    return patient;
+  }
+
+  /**
+   * Patient data for createTestPatient / DataSeeder.seedPatient: build() plus
+   * any attributes and identifiers. Relatives are kept for seedRelatives.
+   */
+  buildApiPayload(): ApiPatientData {
+    return {
+      ...this.build(),
+      ...(Object.keys(this.attributes).length > 0 ? { attributes: { ...this.attributes } } : {}),
+      ...(this.identifiers.length > 0
+        ? { identifiers: this.identifiers.map(identifier => ({ ...identifier })) }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Start building a test patient
+ */
+export function aPatient(): PatientBuilder {
+  return new PatientBuilder();
+}
+
+/**
+ * Random birthdate (YYYY-MM-DD) of someone between minYears and maxYears old today
+ */
+function birthdateForAge(minYears: number, maxYears: number, localeFaker: Faker): string {
+  const today = new Date();
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+  const day = today.getUTCDate();
+
+  // Born the day after this, maxYears + 1 years ago, the patient is still maxYears old
+  const from = new Date(Date.UTC(year - maxYears - 1, month, day + 1));
+  const to = new Date(Date.UTC(year - minYears, month, day));
+  return localeFaker.date.between({ from, to }).toISOString().split('T')[0];
+}
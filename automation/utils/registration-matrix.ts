@@ -0,0 +1,80 @@
+import { pairwise } from './pairwise';
+import type { Combination } from './pairwise';
+import { aPatient } from './patient-builder';
+import type { PatientBuilder } from './patient-builder';
+
+/**
+ * The optional parts of the registration form, and the gender, varied by
+ * the registration matrix tests
+ */
+export const REGISTRATION_DIMENSIONS = {
+  gender: ['M', 'F'],
+  address: [true, false],
+  city: [true, false],
+  country: [true, false],
+  phone: [true, false],
+  relatives: [0, 1, 2, 3],
+} as const;
+
+export type RegistrationCase = Combination<typeof REGISTRATION_DIMENSIONS>;
+
+/** Address dimensions and the PatientData field each one controls */
+const ADDRESS_DIMENSIONS = [
+  ['address', 'address1'],
+  ['city', 'cityVillage'],
+  ['country', 'country'],
+] as const;
+
+/**
+ * Pairwise cases over REGISTRATION_DIMENSIONS; always the same cases in the
+ * same order
+ */
+export function registrationCases(): RegistrationCase[] {
+  return pairwise(REGISTRATION_DIMENSIONS);
+}
+
+/**
+ * Readable test title for a case, e.g.
+ * 'female with address, country and 2 relatives'
+ */
+export function describeRegistrationCase(registrationCase: RegistrationCase): string {
+  const parts: string[] = (['address', 'city', 'country', 'phone'] as const).filter(
+    field => registrationCase[field]
+  );
+  if (registrationCase.relatives > 0) {
+    parts.push(
+      `${registrationCase.relatives} relative${registrationCase.relatives > 1 ? 's' : ''}`
+    );
+  }
+
+  const gender = registrationCase.gender === 'M' ? 'male' : 'female';
+  if (parts.length === 0) {
+    return `${gender} with required fields only`;
+  }
+  const last = parts.pop();
+  return `${gender} with ${parts.length > 0 ? `${parts.join(', ')} and ${last}` : last}`;
+}
+
+/**
+ * Builder for a patient matching a case; call build() inside the test so the
+ * data comes from the test's seed
+ */
+export function registrationCasePatient(registrationCase: RegistrationCase): PatientBuilder {
+  const builder = aPatient().withRelatives(registrationCase.relatives);
+  if (registrationCase.gender === 'M') {
+    builder.male();
+  } else {
+    builder.female();
+  }
+
+  builder.withoutAddressFields(
+    ...ADDRESS_DIMENSIONS.filter(([dimension]) => !registrationCase[dimension]).map(
+      ([, field]) => field
+    )
+  );
+  if (!registrationCase.phone) {
+    builder.withoutPhone();
+  }
+
+  return builder;
+}
@@ -0,0 +1,81 @@
+import { OpenmrsApiError, OpenmrsNetworkError, OpenmrsServerError } from './api-errors';
+
+/**
+ * When and how often ApiHelpers retries a failed request
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after each retry */
+  backoffFactor: number;
+  /**
+   * Also retry POST requests. Off by default: a POST that timed out or hit
+   * a 5xx may still have been applied, and retrying it would duplicate data.
+   */
+  retryNonIdempotent: boolean;
+  /** Called before each retry, e.g. to log it; retries are silent without it */
+  onRetry?: (retry: RetryAttempt) => void;
+}
+
+/**
+ * A retry about to happen
+ */
+export interface RetryAttempt {
+  /** The transient failure that is retried */
+  error: OpenmrsApiError;
+  /** Attempt that comes next: 2 for the first retry */
+  attempt: number;
+  /** Attempts the policy allows in all (maxRetries + 1) */
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: Number(process.env.API_MAX_RETRIES || 2),
+  initialDelayMs: Number(process.env.API_RETRY_DELAY_MS || 500),
+  maxDelayMs: 5000,
+  backoffFactor: 2,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Transient failures: server errors and requests that got no response
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof OpenmrsServerError || error instanceof OpenmrsNetworkError;
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  method: string,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> {
+  const retryable = policy.retryNonIdempotent || method !== 'POST';
+  let delay = policy.initialDelayMs;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!retryable || attempt >= policy.maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+
+      policy.onRetry?.({
+        error: error as OpenmrsApiError,
+        attempt: attempt + 2,
+        maxAttempts: policy.maxRetries + 1,
+        delayMs: delay,
+      });
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * policy.backoffFactor, policy.maxDelayMs);
+    }
+  }
+}
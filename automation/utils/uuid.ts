@@ -0,0 +1,8 @@
+/**
+ * Check whether a value looks like an OpenMRS UUID: 36 to 38 hex digits and
+ * hyphens, which also covers CIEL-style UUIDs such as
+ * '5089AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA'
+ */
+export function isUuid(value: string): boolean {
+  return /^[0-9a-f-]{36,38}$/i.test(value);
+}
@@ -1,5 +1,6 @@
 import { defineConfig, devices } from '@playwright/test';
 import dotenv from 'dotenv';
+import type { DataLocale } from './automation/utils/data-generator';
 
 // Load environment variables
 dotenv.config();
@@ -7,7 +8,7 @@ dotenv.config();
 /**
  * @see https://playwright.dev/docs/test-configuration
  */
-export default defineConfig({
+export default defineConfig<{ dataLocale: DataLocale }>({
   testDir: './automation/tests',
   /* Run tests in files in parallel */
   fullyParallel: true,
@@ -51,6 +52,12 @@ export default defineConfig({
       use: { ...devices['Desktop Chrome'] },
     },
 
+    /* Same tests with patient data generated in another locale. */
+    // {
+    //   name: 'chromium-id_ID',
+    //   use: { ...devices['Desktop Chrome'], dataLocale: 'id_ID' },
+    // },
+
     // {
     //   name: 'firefox',
     //   use: { ...devices['Desktop Firefox'] },
@@ -90,8 +97,8 @@ export default defineConfig({
   // },
 
   /* Global Setup and Teardown */
-  // globalSetup: require.resolve('./automation/config/global-setup'),
-  // globalTeardown: require.resolve('./automation/config/global-teardown'),
+  globalSetup: require.resolve('./automation/config/global-setup'),
+  globalTeardown: require.resolve('./automation/config/global-teardown'),
 
   /* Test timeout */
   timeout: 120 * 1000, // 2 minutes for slow OpenMRS operations